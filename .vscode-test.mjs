@@ -0,0 +1,5 @@
+import { defineConfig } from "@vscode/test-cli";
+
+export default defineConfig({
+	files: "out/test/**/*.test.js",
+});
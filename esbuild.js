@@ -58,29 +58,48 @@ const copyHtmlPlugin = {
 	},
 };
 
+/**
+ * @type {import('esbuild').BuildOptions}
+ */
+const commonOptions = {
+	bundle: true,
+	format: "cjs",
+	minify: production,
+	sourcemap: !production,
+	sourcesContent: false,
+	platform: "node",
+	logLevel: "silent",
+};
+
 async function main() {
-	const ctx = await esbuild.context({
-		entryPoints: ["src/extension.ts"],
-		bundle: true,
-		format: "cjs",
-		minify: production,
-		sourcemap: !production,
-		sourcesContent: false,
-		platform: "node",
-		outfile: "dist/extension.js",
-		external: ["vscode"],
-		logLevel: "silent",
-		plugins: [
-			/* add to the end of plugins array */
-			esbuildProblemMatcherPlugin,
-			copyHtmlPlugin,
-		],
-	});
+	const contexts = await Promise.all([
+		esbuild.context({
+			...commonOptions,
+			entryPoints: ["src/extension.ts"],
+			outfile: "dist/extension.js",
+			external: ["vscode"],
+			plugins: [
+				/* add to the end of plugins array */
+				esbuildProblemMatcherPlugin,
+				copyHtmlPlugin,
+			],
+		}),
+		// Command line interface, which must not depend on vscode
+		esbuild.context({
+			...commonOptions,
+			entryPoints: ["src/cli.ts"],
+			outfile: "dist/cli.js",
+			banner: { js: "#!/usr/bin/env node" },
+			plugins: [esbuildProblemMatcherPlugin],
+		}),
+	]);
 	if (watch) {
-		await ctx.watch();
+		await Promise.all(contexts.map((ctx) => ctx.watch()));
 	} else {
-		await ctx.rebuild();
-		await ctx.dispose();
+		for (const ctx of contexts) {
+			await ctx.rebuild();
+			await ctx.dispose();
+		}
 	}
 }
 
@@ -1,131 +1,142 @@
-import * as fs from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
-import * as ts from "typescript";
-
-interface TranslationMap {
-	[key: string]: string[];
+import { definingFile, type LocaleCatalogue } from "./catalogue";
+import { addSiblingKey, deleteKey, updateValues } from "./catalogueEditor";
+import { CatalogueWatcher } from "./catalogueWatcher";
+import { registerCoverageView } from "./coverageView";
+import { TranslationDiagnostics } from "./diagnostics";
+import { formatKeyCall, registerExtractStringActions } from "./extractStrings";
+import { registerHardcodedStringsView } from "./hardcodedStringsView";
+import { TranslationHoverProvider } from "./hoverProvider";
+import {
+	addTranslationsToWorkspace,
+	I18N_SCHEME,
+	I18nFileSystemProvider,
+	registerI18nTextSearchProvider,
+	uriToKey,
+} from "./i18nFileSystem";
+import {
+	KEY_COMPLETION_TRIGGERS,
+	KeyCompletionProvider,
+} from "./keyCompletion";
+import { openKeyDefinition } from "./keyDefinitions";
+import { KeyDefinitionProvider, KeyReferenceProvider } from "./keyNavigation";
+import { USAGE_DOCUMENT_SELECTOR } from "./keyReferences";
+import { registerKeyRename } from "./keyRename";
+import { getLogger } from "./logger";
+import { createLogger } from "./outputChannelLogger";
+import { pluralBaseKey, pluralForms } from "./plurals";
+import { registerSearchCommands } from "./searchCommands";
+import { SearchHistory } from "./searchHistory";
+import {
+	openSearchView,
+	searchKeyInEditor,
+	searchKeyInFiles,
+} from "./searchView";
+import { registerTranslationDecorations } from "./translationDecorations";
+import {
+	createMatcher,
+	DEFAULT_SEARCH_OPTIONS,
+	type Matcher,
+	type MatchRange,
+	type SearchOptions,
+	type TextMatch,
+} from "./translationSearch";
+import {
+	type CatalogueChange,
+	type FolderTranslations,
+	TranslationStore,
+} from "./translationStore";
+import { revealKeyUsages, UsageIndex } from "./usageIndex";
+
+interface TranslationResult {
+	key: string;
+	label: string;
+	value: string;
+	/** Locale whose value matched the search */
+	locale: string;
+	/** Values of the key in every loaded locale */
+	translations: Record<string, string>;
+	/** Locales of the catalogues the key belongs to, which can be edited */
+	locales: string[];
+	score: number;
+	/** Whether the search matched the key or its value */
+	matchedField: "key" | "value";
+	/** Ranges of the matched field to highlight */
+	highlights: MatchRange[];
+	/** Keys of the plural forms grouped under `key` */
+	pluralForms?: string[];
+	/** Why the key cannot be edited from the view, when it cannot */
+	readOnly?: string;
+	/** Name and URI of the workspace folder whose catalogue defines the key */
+	folder: string;
+	folderUri: string;
 }
 
-// Logger utility
-class Logger {
-	private outputChannel: vscode.OutputChannel;
-	private logLevel: string = "info";
-
-	constructor() {
-		this.outputChannel = vscode.window.createOutputChannel("i18n-search");
-	}
-
-	setLogLevel(level: string) {
-		this.logLevel = level;
-	}
-
-	private shouldLog(level: string): boolean {
-		const levels = { error: 0, warn: 1, info: 2, debug: 3 };
-		return (
-			levels[level as keyof typeof levels] <=
-			levels[this.logLevel as keyof typeof levels]
-		);
-	}
-
-	private formatMessage(
-		level: string,
-		message: string,
-		...args: any[]
-	): string {
-		const timestamp = new Date().toISOString();
-		const formattedArgs =
-			args.length > 0
-				? " " +
-					args
-						.map((arg) =>
-							typeof arg === "object"
-								? JSON.stringify(arg, null, 2)
-								: String(arg),
-						)
-						.join(" ")
-				: "";
-		return `[${timestamp}] [${level.toUpperCase()}] ${message}${formattedArgs}`;
-	}
-
-	debug(message: string, ...args: any[]) {
-		if (this.shouldLog("debug")) {
-			this.outputChannel.appendLine(
-				this.formatMessage("debug", message, ...args),
-			);
-		}
-	}
-
-	info(message: string, ...args: any[]) {
-		if (this.shouldLog("info")) {
-			this.outputChannel.appendLine(
-				this.formatMessage("info", message, ...args),
-			);
-		}
-	}
-
-	warn(message: string, ...args: any[]) {
-		if (this.shouldLog("warn")) {
-			this.outputChannel.appendLine(
-				this.formatMessage("warn", message, ...args),
-			);
-		}
-	}
-
-	error(message: string, error?: Error | any) {
-		if (this.shouldLog("error")) {
-			let errorDetails = "";
-			if (error instanceof Error) {
-				errorDetails = `\n${error.message}\n${error.stack}`;
-			} else if (error) {
-				errorDetails = `\n${JSON.stringify(error, null, 2)}`;
-			}
-			this.outputChannel.appendLine(
-				this.formatMessage("error", message + errorDetails),
-			);
-		}
-	}
-
-	show() {
-		this.outputChannel.show();
-	}
+/** Actions of a result's context menu in the webview */
+interface ResultActionMessage {
+	type:
+		| "copyKey"
+		| "copyKeyCall"
+		| "copyValue"
+		| "openInCatalogue"
+		| "findUsages"
+		| "openInSearchEditor";
+	key: string;
+	value: string;
+	locale: string;
+	folderUri?: string;
+	pluralForms?: string[];
 }
 
-// Global logger instance
-let logger: Logger;
+const RESULT_ACTIONS = new Set<string>([
+	"copyKey",
+	"copyKeyCall",
+	"copyValue",
+	"openInCatalogue",
+	"findUsages",
+	"openInSearchEditor",
+] satisfies ResultActionMessage["type"][]);
+
+/** Keys of a workspace folder, as results refer to them */
+interface ResultKey {
+	key: string;
+	folderUri: string;
+}
 
-// Logger singleton that's always available
-const getLogger = () =>
-	logger || {
-		debug: () => {},
-		info: () => {},
-		warn: () => {},
-		error: () => {},
-		show: () => {},
-		setLogLevel: () => {},
-	};
+/** Keys changed since the results were last sent to the webview */
+interface ResultsDiff {
+	added: ResultKey[];
+	removed: ResultKey[];
+	changed: ResultKey[];
+}
 
 class I18nSearchViewProvider implements vscode.WebviewViewProvider {
 	public static readonly viewType = "i18nSearchView";
 	private _view?: vscode.WebviewView;
-	private translationMap: TranslationMap = {};
 	private webviewReady = false;
 	private pendingFocus = false;
 	private lastSearchTerm = "";
-	private lastSearchResults: { key: string; label: string; value: string }[] =
-		[];
+	private searchOptions: SearchOptions = DEFAULT_SEARCH_OPTIONS;
+	private history: SearchHistory;
 
-	constructor(private context: vscode.ExtensionContext) {
+	constructor(
+		context: vscode.ExtensionContext,
+		private store: TranslationStore,
+		private usageIndex: UsageIndex,
+	) {
 		getLogger().debug("I18nSearchViewProvider constructor called");
-		// Load last search from global state
-		this.lastSearchTerm = context.globalState.get(
-			"i18nSearch.lastSearchTerm",
-			"",
-		);
-		this.lastSearchResults = context.globalState.get(
-			"i18nSearch.lastSearchResults",
-			[],
-		);
+		this.history = new SearchHistory(context.workspaceState);
+		// Mementos return updated values right away, before they are stored
+		this.history
+			.migrateLegacySearch(context.globalState)
+			.then(undefined, (error) =>
+				getLogger().error("Failed to migrate the last search", error),
+			);
+		// Load the last search of this workspace
+		const { searchText, options } = this.history.lastSearch;
+		this.lastSearchTerm = searchText;
+		this.searchOptions = { ...DEFAULT_SEARCH_OPTIONS, ...options };
 	}
 
 	private getHtml(): string {
@@ -134,9 +145,58 @@ class I18nSearchViewProvider implements vscode.WebviewViewProvider {
 		return fs.readFileSync(htmlPath, "utf8");
 	}
 
-	updateTranslations(newMap: TranslationMap) {
-		this.translationMap = newMap;
-		this.updateResults();
+	/**
+	 * Runs the current search again against the changed catalogues and sends
+	 * the results with the changed keys, so the view updates in place
+	 */
+	updateTranslations(changes: CatalogueChange[] = []) {
+		if (!this._view || !this.webviewReady) {
+			return;
+		}
+		const { results, error } = this.findTranslations(
+			this.lastSearchTerm,
+			this.searchOptions,
+		);
+		this._view.webview.postMessage({
+			type: "translationsChanged",
+			results,
+			searchText: this.lastSearchTerm,
+			enableMixedSearch: vscode.workspace
+				.getConfiguration("i18nSearch")
+				.get<boolean>("enableMixedSearch", true),
+			error,
+			diff: this.resultsDiff(changes),
+			pinned: this.pinnedResults(),
+		});
+	}
+
+	/**
+	 * Merges the changes of each locale into changes of keys. A key added to
+	 * one locale and changed or removed in another counts as changed.
+	 */
+	private resultsDiff(changes: CatalogueChange[]): ResultsDiff {
+		const merged = new Map<
+			string,
+			{ resultKey: ResultKey; kind: keyof ResultsDiff }
+		>();
+		for (const change of changes) {
+			for (const kind of ["added", "removed", "changed"] as const) {
+				for (const key of change[kind]) {
+					const id = `${change.folderUri}|${key}`;
+					const current = merged.get(id)?.kind;
+					merged.set(id, {
+						resultKey: { key, folderUri: change.folderUri },
+						kind: !current || current === kind ? kind : "changed",
+					});
+				}
+			}
+		}
+
+		const diff: ResultsDiff = { added: [], removed: [], changed: [] };
+		for (const { resultKey, kind } of merged.values()) {
+			diff[kind].push(resultKey);
+		}
+		return diff;
 	}
 
 	focusSearch() {
@@ -149,24 +209,195 @@ class I18nSearchViewProvider implements vscode.WebviewViewProvider {
 		}
 	}
 
-	private saveSearchState(
-		searchTerm: string,
-		results: { key: string; label: string; value: string }[],
-	) {
+	private saveSearchState(searchTerm: string, options: SearchOptions) {
 		this.lastSearchTerm = searchTerm;
-		this.lastSearchResults = results;
-		this.context.globalState.update("i18nSearch.lastSearchTerm", searchTerm);
-		this.context.globalState.update("i18nSearch.lastSearchResults", results);
+		this.searchOptions = options;
+		this.history.setLastSearch(searchTerm, options);
 	}
 
-	private restoreLastSearch() {
-		if (this._view && this.webviewReady && this.lastSearchTerm) {
-			this._view.webview.postMessage({
-				type: "restoreSearch",
-				searchTerm: this.lastSearchTerm,
-				results: this.lastSearchResults,
-			});
+	/**
+	 * Puts the last search in the search input with its results, found again
+	 * in the current catalogues rather than replayed from an old snapshot
+	 */
+	private showLastSearch() {
+		if (!this._view || !this.webviewReady) {
+			return;
+		}
+		const { results, error } = this.findTranslations(
+			this.lastSearchTerm,
+			this.searchOptions,
+		);
+		this._view.webview.postMessage({
+			type: "restoreSearch",
+			searchTerm: this.lastSearchTerm,
+			results,
+			options: this.searchOptions,
+			enableMixedSearch: vscode.workspace
+				.getConfiguration("i18nSearch")
+				.get<boolean>("enableMixedSearch", true),
+			error,
+			pinned: this.pinnedResults(),
+		});
+	}
+
+	/** Runs a search as if typed, adding it to the recent searches */
+	runSearch(searchText: string, options: Partial<SearchOptions>) {
+		this.saveSearchState(searchText, { ...DEFAULT_SEARCH_OPTIONS, ...options });
+		this.recordSearch(searchText);
+		this.showLastSearch();
+	}
+
+	private async recordSearch(searchText: string) {
+		await this.history.addRecentSearch(searchText);
+		this.postHistory();
+	}
+
+	/** Sends the recent and saved searches, recalled in the webview */
+	private postHistory() {
+		this._view?.webview.postMessage({
+			type: "historyChanged",
+			recentSearches: this.history.recentSearches,
+			savedQueries: this.history.savedQueries,
+		});
+	}
+
+	/** Saves the current search under a name */
+	async saveSearch() {
+		if (!this.lastSearchTerm.trim()) {
+			vscode.window.showInformationMessage("Type a search to save it");
+			return;
+		}
+		const name = await vscode.window.showInputBox({
+			prompt: "Name of the saved search",
+			value: this.lastSearchTerm,
+			validateInput: (value) => (value.trim() ? undefined : "Enter a name"),
+		});
+		if (!name) {
+			return;
+		}
+		await this.history.saveQuery({
+			name: name.trim(),
+			searchText: this.lastSearchTerm,
+			options: this.searchOptions,
+		});
+		this.postHistory();
+	}
+
+	private async deleteSavedSearch(name: string) {
+		await this.history.deleteQuery(name);
+		this.postHistory();
+	}
+
+	async clearHistory() {
+		await this.history.clearRecentSearches();
+		this.postHistory();
+	}
+
+	/** Picks a saved or recent search to run again */
+	async showHistory() {
+		type HistoryItem = vscode.QuickPickItem & {
+			searchText?: string;
+			options?: Partial<SearchOptions>;
+			savedName?: string;
+			clear?: boolean;
+		};
+		const deleteButton: vscode.QuickInputButton = {
+			iconPath: new vscode.ThemeIcon("trash"),
+			tooltip: "Delete Saved Search",
+		};
+		const items = (): HistoryItem[] => {
+			const saved = this.history.savedQueries;
+			const recent = this.history.recentSearches;
+			const items: HistoryItem[] = [];
+			if (saved.length > 0) {
+				items.push(
+					{ label: "Saved", kind: vscode.QuickPickItemKind.Separator },
+					...saved.map((query) => ({
+						label: `$(star-full) ${query.name}`,
+						description: query.searchText,
+						searchText: query.searchText,
+						options: query.options,
+						savedName: query.name,
+						buttons: [deleteButton],
+					})),
+				);
+			}
+			if (recent.length > 0) {
+				items.push(
+					{ label: "Recent", kind: vscode.QuickPickItemKind.Separator },
+					...recent.map((searchText) => ({
+						label: `$(history) ${searchText}`,
+						searchText,
+					})),
+					{ label: "$(clear-all) Clear Recent Searches", clear: true },
+				);
+			}
+			return items;
+		};
+
+		if (items().length === 0) {
+			vscode.window.showInformationMessage("No recent or saved searches");
+			return;
 		}
+		const quickPick = vscode.window.createQuickPick<HistoryItem>();
+		quickPick.title = "Search History";
+		quickPick.placeholder = "Pick a search to run again";
+		quickPick.items = items();
+		quickPick.onDidTriggerItemButton(async ({ item }) => {
+			if (item.savedName) {
+				await this.deleteSavedSearch(item.savedName);
+				quickPick.items = items();
+			}
+		});
+		quickPick.onDidAccept(async () => {
+			const [item] = quickPick.selectedItems;
+			quickPick.hide();
+			if (item?.clear) {
+				await this.clearHistory();
+			} else if (item?.searchText !== undefined) {
+				this.runSearch(item.searchText, item.options ?? this.searchOptions);
+			}
+		});
+		quickPick.onDidHide(() => quickPick.dispose());
+		quickPick.show();
+	}
+
+	/** Results of the pinned keys still defined, with their current values */
+	private pinnedResults(): TranslationResult[] {
+		return this.history.pinnedKeys.flatMap(({ key, folderUri }) => {
+			const folder = this.store.findFolder(folderUri);
+			const translations = folder?.displayedTranslationsFor(key) ?? {};
+			const catalogue = folder
+				?.cataloguesFor(key)
+				.find((catalogue) => catalogue.locale in translations);
+			if (!folder || !catalogue) {
+				return [];
+			}
+			return [
+				{
+					...this.toResult(
+						folder,
+						key,
+						translations[catalogue.locale],
+						catalogue,
+					),
+					translations,
+					// Plural keys show their `other` form
+					pluralForms:
+						key in catalogue.entries
+							? undefined
+							: pluralForms(catalogue.entries, key),
+				},
+			];
+		});
+	}
+
+	private async togglePin(key: string, folderUri: string) {
+		await this.history.togglePin(key, folderUri);
+		this._view?.webview.postMessage({
+			type: "pinnedChanged",
+			pinned: this.pinnedResults(),
+		});
 	}
 
 	resolveWebviewView(view: vscode.WebviewView) {
@@ -188,13 +419,23 @@ class I18nSearchViewProvider implements vscode.WebviewViewProvider {
 		// Send initial data
 		view.webview.postMessage({
 			type: "initialized",
-			translations: Object.keys(this.translationMap).length,
+			translations: Object.keys(this.store.translationMap).length,
+			locales: [
+				...new Set(this.store.locales.map((catalogue) => catalogue.locale)),
+			],
 		});
 
 		view.webview.onDidReceiveMessage((msg) => {
 			getLogger().debug("Received message from webview:", msg);
 			if (msg.type === "search") {
-				const matches = this.findTranslations(msg.text);
+				const options: SearchOptions = {
+					...DEFAULT_SEARCH_OPTIONS,
+					...msg.options,
+				};
+				const { results: matches, error } = this.findTranslations(
+					msg.text,
+					options,
+				);
 				getLogger().debug("Search results:", matches);
 
 				// Get configuration
@@ -209,17 +450,50 @@ class I18nSearchViewProvider implements vscode.WebviewViewProvider {
 					results: matches,
 					searchText: msg.text,
 					enableMixedSearch,
+					error,
+					pinned: this.pinnedResults(),
 				});
 
 				// Save search state (including empty searches)
-				this.saveSearchState(msg.text, matches);
+				this.saveSearchState(msg.text, options);
+				// Searches are remembered once confirmed, not on every keystroke
+				if (msg.record) {
+					this.recordSearch(msg.text);
+				}
 			}
 			if (msg.type === "reveal") {
-				this.revealKeyUsage(msg.key, msg.value);
+				this.recordSearch(this.lastSearchTerm);
+				this.revealKeyUsage(msg.key, msg.value, msg.folderUri);
 			}
 			if (msg.type === "searchCodebase") {
+				this.recordSearch(this.lastSearchTerm);
 				this.searchCodebase(msg.searchText);
 			}
+			if (RESULT_ACTIONS.has(msg.type)) {
+				this.runResultAction(msg);
+			}
+			if (msg.type === "togglePin") {
+				this.togglePin(msg.key, msg.folderUri);
+			}
+			if (msg.type === "runSavedSearch") {
+				const query = this.history.savedQueries.find(
+					(query) => query.name === msg.name,
+				);
+				if (query) {
+					this.runSearch(query.searchText, query.options);
+				}
+			}
+			if (msg.type === "deleteSavedSearch") {
+				this.deleteSavedSearch(msg.name);
+			}
+			if (
+				msg.type === "editValues" ||
+				msg.type === "addKey" ||
+				msg.type === "renameKey" ||
+				msg.type === "deleteKey"
+			) {
+				this.editCatalogue(msg);
+			}
 			if (msg.type === "webviewReady") {
 				this.webviewReady = true;
 				getLogger().debug("Webview is ready for interaction");
@@ -229,21 +503,9 @@ class I18nSearchViewProvider implements vscode.WebviewViewProvider {
 					this.focusSearch();
 				}
 
-				// Restore last search if available, otherwise show all translations
-				if (this.lastSearchTerm) {
-					this.restoreLastSearch();
-				} else {
-					// Show all translations by default
-					const allMatches = this.findTranslations("");
-					view.webview.postMessage({
-						type: "results",
-						results: allMatches,
-						searchText: "",
-						enableMixedSearch: vscode.workspace
-							.getConfiguration("i18nSearch")
-							.get<boolean>("enableMixedSearch", true),
-					});
-				}
+				// Restore the last search, or show all translations by default
+				this.postHistory();
+				this.showLastSearch();
 			}
 		});
 
@@ -253,38 +515,140 @@ class I18nSearchViewProvider implements vscode.WebviewViewProvider {
 		});
 	}
 
+	/**
+	 * Matches the catalogues of every workspace folder. Results are grouped by
+	 * folder, in workspace order, and ranked by score within each folder.
+	 */
 	private findTranslations(
 		searchText: string,
-	): { key: string; label: string; value: string }[] {
-		const results: { key: string; label: string; value: string }[] = [];
-
-		// If search text is empty, return all translations
-		if (!searchText.trim()) {
-			for (const [value, keys] of Object.entries(this.translationMap)) {
-				keys.forEach((key) => {
-					results.push({
-						key,
-						label: `t("${key}") → ${value}`,
-						value,
+		options: SearchOptions,
+	): { results: TranslationResult[]; error?: string } {
+		const matcher = searchText.trim()
+			? createMatcher(searchText, options)
+			: undefined;
+		if (matcher && typeof matcher !== "function") {
+			return { results: [], error: matcher.error };
+		}
+
+		return {
+			results: this.store.folders.flatMap((folder) =>
+				matcher
+					? this.findFolderTranslations(folder, matcher)
+					: // An empty search lists every key of the reference locales
+						this.groupPluralForms(
+							folder,
+							folder.references.flatMap((catalogue) =>
+								Object.entries(catalogue.entries).map(([key, value]) =>
+									this.toResult(folder, key, value, catalogue),
+								),
+							),
+						),
+			),
+		};
+	}
+
+	private findFolderTranslations(
+		folder: FolderTranslations,
+		matcher: Matcher,
+	): TranslationResult[] {
+		// Best match of each key, over its name and its value in every locale.
+		// The reference locale comes first and wins ties.
+		const best = new Map<string, TranslationResult>();
+		const keyMatches = new Map<string, TextMatch | undefined>();
+		for (const catalogue of folder.locales) {
+			for (const [key, value] of Object.entries(catalogue.entries)) {
+				if (!keyMatches.has(key)) {
+					keyMatches.set(key, matcher(key));
+				}
+				const keyMatch = keyMatches.get(key);
+				const valueMatch = matcher(value);
+				const current = best.get(key);
+				if (
+					valueMatch &&
+					(!current || valueMatch.score > current.score) &&
+					(!keyMatch || valueMatch.score >= keyMatch.score)
+				) {
+					best.set(key, {
+						...this.toResult(folder, key, value, catalogue),
+						score: valueMatch.score,
+						matchedField: "value",
+						highlights: valueMatch.ranges,
 					});
-				});
-			}
-		} else {
-			// Filter by search text
-			for (const [value, keys] of Object.entries(this.translationMap)) {
-				if (value.toLowerCase().includes(searchText.toLowerCase())) {
-					keys.forEach((key) => {
-						results.push({
-							key,
-							label: `t("${key}") → ${value}`,
-							value,
-						});
+				} else if (keyMatch && !current) {
+					best.set(key, {
+						...this.toResult(folder, key, value, catalogue),
+						score: keyMatch.score,
+						matchedField: "key",
+						highlights: keyMatch.ranges,
 					});
 				}
 			}
 		}
 
-		return results;
+		// Highest score first; the sort is stable so ties keep catalogue order
+		return this.groupPluralForms(folder, [...best.values()]).sort(
+			(a, b) => b.score - a.score,
+		);
+	}
+
+	/**
+	 * Merges plural forms such as `items_one` and `items_other` into a single
+	 * result for `items`, the key used in code, keeping the best match.
+	 */
+	private groupPluralForms(
+		folder: FolderTranslations,
+		results: TranslationResult[],
+	): TranslationResult[] {
+		const grouped = new Map<string, TranslationResult>();
+		for (const result of results) {
+			const baseKey = pluralBaseKey(result.key);
+			if (!baseKey || folder.translationsFor(baseKey)[result.locale]) {
+				grouped.set(result.key, result);
+				continue;
+			}
+			const current = grouped.get(baseKey);
+			const forms = [...(current?.pluralForms ?? []), result.key];
+			if (!current || result.score > current.score) {
+				grouped.set(baseKey, {
+					...result,
+					key: baseKey,
+					label: `t("${baseKey}") → ${result.value}`,
+					pluralForms: forms,
+					highlights:
+						result.matchedField === "key"
+							? result.highlights.filter(([start]) => start < baseKey.length)
+							: result.highlights,
+				});
+			} else {
+				current.pluralForms = forms;
+			}
+		}
+		return [...grouped.values()];
+	}
+
+	private toResult(
+		folder: FolderTranslations,
+		key: string,
+		value: string,
+		catalogue: LocaleCatalogue,
+	): TranslationResult {
+		const filePath = definingFile(catalogue, key);
+		return {
+			key,
+			label: `t("${key}") → ${value}`,
+			value,
+			locale: catalogue.locale,
+			translations: folder.translationsFor(key),
+			locales: folder.cataloguesFor(key).map((catalogue) => catalogue.locale),
+			score: 0,
+			matchedField: "value",
+			highlights: [],
+			readOnly:
+				filePath &&
+				`Defined in ${vscode.workspace.asRelativePath(filePath)}; edit it there`,
+			folder: folder.folder.name,
+			folderUri: folder.folder.uri.toString(),
+		};
 	}
 
 	private async searchCodebase(searchText: string) {
@@ -294,323 +658,99 @@ class I18nSearchViewProvider implements vscode.WebviewViewProvider {
 		);
 	}
 
-	private async revealKeyUsage(key: string, translationValue?: string) {
+	private async revealKeyUsage(
+		key: string,
+		translationValue?: string,
+		folderUri?: string,
+	) {
 		try {
-			// Get configuration
-			const config = vscode.workspace.getConfiguration("i18nSearch");
-			const enableMixedSearch = config.get<boolean>("enableMixedSearch", true);
-
-			let searchPattern: string;
-			let isRegex: boolean;
-
-			if (enableMixedSearch && translationValue) {
-				// Escape special regex characters in both key and value
-				const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-				const escapedValue = translationValue.replace(
-					/[.*+?^${}()|[\]\\]/g,
-					"\\$&",
-				);
-
-				// Build regex pattern to search for both key and value
-				searchPattern = `${escapedKey}|${escapedValue}`;
-				isRegex = true;
-			} else {
-				// Just search for the translation key
-				searchPattern = key;
-				isRegex = false;
-			}
-
-			// Use the official VS Code API to find and navigate to the first match
-			await this.findAndNavigateToFirstMatch(searchPattern, isRegex);
+			await revealKeyUsages(this.usageIndex, key, translationValue, {
+				folder: folderUri ? this.store.findFolder(folderUri) : undefined,
+			});
 		} catch (error) {
+			getLogger().error("Error finding key usages:", error);
 			vscode.window.showErrorMessage(`Error finding usage for key: ${key}`);
 		}
 	}
 
-	private async findAndNavigateToFirstMatch(
-		searchPattern: string,
-		isRegex: boolean,
-	) {
+	private async runResultAction(msg: ResultActionMessage) {
+		const folder = this.store.findFolder(msg.folderUri);
 		try {
-			// Get configuration for timeout and jump behavior
-			const config = vscode.workspace.getConfiguration("i18nSearch");
-			const searchTimeout = config.get<number>("searchTimeout", 300);
-			const jumpToFirstResult = config.get<boolean>("jumpToFirstResult", true);
-
-			// Use the workbench action to find matches and show results
-			await vscode.commands.executeCommand("workbench.action.findInFiles", {
-				query: searchPattern,
-				isRegex: isRegex,
-				isCaseSensitive: false,
-			});
-
-			// Execute the search to ensure results are loaded
-			await vscode.commands.executeCommand(
-				"search.action.refreshSearchResults",
-			);
-
-			// Only wait and navigate if jumpToFirstResult is enabled
-			if (jumpToFirstResult) {
-				// Wait for results to load, then navigate
-				await new Promise((resolve) => setTimeout(resolve, searchTimeout));
-
-				// Navigate to the first result
-				await vscode.commands.executeCommand(
-					"search.action.focusNextSearchResult",
-				);
-				await vscode.commands.executeCommand("search.action.openResult");
+			switch (msg.type) {
+				case "copyKey":
+					await this.copy(msg.key, "key");
+					break;
+				case "copyKeyCall":
+					await this.copy(formatKeyCall(msg.key), "snippet");
+					break;
+				case "copyValue":
+					await this.copy(msg.value, "value");
+					break;
+				case "openInCatalogue":
+					// Plural groups open at their first form
+					await vscode.commands.executeCommand(
+						"i18n-search.openKeyDefinition",
+						msg.pluralForms?.[0] ?? msg.key,
+						msg.locale,
+						msg.folderUri,
+					);
+					break;
+				case "findUsages":
+					await revealKeyUsages(this.usageIndex, msg.key, undefined, {
+						pick: true,
+						folder,
+					});
+					break;
+				case "openInSearchEditor":
+					await searchKeyInEditor(msg.key, folder?.folder);
+					break;
 			}
 		} catch (error) {
-			getLogger().error("Error finding matches:", error);
-			vscode.window.showErrorMessage(`Error searching for: ${searchPattern}`);
-		}
-	}
-
-	private updateResults() {
-		if (this._view) {
-			this._view.webview.postMessage({ type: "translationsUpdated" });
-		}
-	}
-}
-
-class I18nFileSystemProvider implements vscode.FileSystemProvider {
-	private _onDidChangeFile = new vscode.EventEmitter<
-		vscode.FileChangeEvent[]
-	>();
-	readonly onDidChangeFile = this._onDidChangeFile.event;
-
-	constructor(private translationMap: TranslationMap) {}
-
-	updateTranslations(newMap: TranslationMap) {
-		this.translationMap = newMap;
-	}
-
-	watch(): vscode.Disposable {
-		return { dispose: () => {} };
-	}
-
-	stat(uri: vscode.Uri): vscode.FileStat {
-		const key = this.getKeyFromUri(uri);
-		if (key && this.translationMap[key]) {
-			return {
-				type: vscode.FileType.File,
-				ctime: Date.now(),
-				mtime: Date.now(),
-				size: 0,
-			};
-		}
-		throw vscode.FileSystemError.FileNotFound();
-	}
-
-	readDirectory(): [string, vscode.FileType][] {
-		return [];
-	}
-
-	createDirectory(): void {
-		throw vscode.FileSystemError.NoPermissions();
-	}
-
-	readFile(uri: vscode.Uri): Uint8Array {
-		const key = this.getKeyFromUri(uri);
-		if (key && this.translationMap[key]) {
-			const content = `export const t = "${this.translationMap[key][0]}";`;
-			return Buffer.from(content, "utf8");
-		}
-		throw vscode.FileSystemError.FileNotFound();
-	}
-
-	writeFile(): void {
-		throw vscode.FileSystemError.NoPermissions();
-	}
-
-	delete(): void {
-		throw vscode.FileSystemError.NoPermissions();
-	}
-
-	rename(): void {
-		throw vscode.FileSystemError.NoPermissions();
-	}
-
-	private getKeyFromUri(uri: vscode.Uri): string | null {
-		if (uri.scheme !== "i18n") {
-			return null;
-		}
-		const path = uri.path;
-		if (path.endsWith(".ts")) {
-			return path.slice(1, -3); // remove leading '/' and '.ts'
+			getLogger().error(`Failed to run ${msg.type} on ${msg.key}:`, error);
+			vscode.window.showErrorMessage(
+				`Failed to run the action on key: ${msg.key}`,
+			);
 		}
-		return path.slice(1); // remove leading '/'
 	}
-}
-
-// Robust parser for TypeScript/JavaScript object literals
-function parseObjectLiteral(objectString: string): any {
-	// Strategy 1: Try JSON.parse with basic transformations
-	try {
-		const jsonString = objectString
-			.replace(/(\w+):/g, '"$1":') // Quote property names
-			.replace(/'/g, '"') // Replace single quotes with double quotes
-			.replace(/,(\s*[}\]])/g, "$1") // Remove trailing commas before } or ]
-			.replace(/,\s*}/g, "}") // Remove trailing commas before closing braces
-			.replace(/,\s*]/g, "]"); // Remove trailing commas before closing brackets
-
-		return JSON.parse(jsonString);
-	} catch (error) {
-		getLogger().debug("JSON.parse failed, trying enhanced parsing...");
-	}
-
-	// Strategy 2: TypeScript AST-based parsing (most robust)
-	try {
-		// Create a TypeScript source file
-		const sourceFile = ts.createSourceFile(
-			"translation.ts",
-			`const translations = ${objectString};`,
-			ts.ScriptTarget.Latest,
-			true,
-		);
-
-		// Find the variable declaration
-		const variableStatement = sourceFile.statements.find(
-			(stmt): stmt is ts.VariableStatement => ts.isVariableStatement(stmt),
-		);
-
-		if (!variableStatement) {
-			throw new Error("No variable statement found");
-		}
-
-		const variableDeclaration =
-			variableStatement.declarationList.declarations[0];
-		if (!variableDeclaration || !variableDeclaration.initializer) {
-			throw new Error("No variable initializer found");
-		}
-
-		// Extract the object literal
-		const objectLiteral = variableDeclaration.initializer;
-		if (!ts.isObjectLiteralExpression(objectLiteral)) {
-			throw new Error("Variable initializer is not an object literal");
-		}
 
-		// Convert the AST back to a JavaScript object
-		const result: any = {};
-
-		function processPropertyAssignment(prop: ts.ObjectLiteralElementLike): any {
-			if (ts.isPropertyAssignment(prop)) {
-				const key = prop.name.getText(sourceFile);
-				const value = processExpression(prop.initializer);
-				return { key, value };
-			}
-			return null;
-		}
-
-		function processExpression(expr: ts.Expression): any {
-			if (ts.isStringLiteral(expr)) {
-				return expr.text;
-			} else if (ts.isNumericLiteral(expr)) {
-				return Number(expr.text);
-			} else if (expr.kind === ts.SyntaxKind.TrueKeyword) {
-				return true;
-			} else if (expr.kind === ts.SyntaxKind.FalseKeyword) {
-				return false;
-			} else if (expr.kind === ts.SyntaxKind.NullKeyword) {
-				return null;
-			} else if (ts.isObjectLiteralExpression(expr)) {
-				const obj: any = {};
-				expr.properties.forEach((prop) => {
-					const assignment = processPropertyAssignment(prop);
-					if (assignment) {
-						obj[assignment.key] = assignment.value;
-					}
-				});
-				return obj;
-			} else if (ts.isArrayLiteralExpression(expr)) {
-				return expr.elements.map((element) => processExpression(element));
-			} else if (ts.isTemplateExpression(expr)) {
-				// Convert template literals to regular strings
-				let result = "";
-				result += expr.head.text;
-				expr.templateSpans.forEach((span) => {
-					result += span.literal.text;
-				});
-				return result;
-			}
-			// For other expressions, return as string
-			return expr.getText(sourceFile);
-		}
-
-		objectLiteral.properties.forEach((prop) => {
-			const assignment = processPropertyAssignment(prop);
-			if (assignment) {
-				result[assignment.key] = assignment.value;
-			}
-		});
-
-		return result;
-	} catch (error) {
-		getLogger().debug(
-			"TypeScript AST parsing failed, trying enhanced regex...",
-		);
+	private async copy(text: string, what: string) {
+		await vscode.env.clipboard.writeText(text);
+		vscode.window.setStatusBarMessage(`Copied ${what} to the clipboard`, 3000);
 	}
 
-	getLogger().error("Failed to parse translation object");
-	return {};
-}
-
-async function loadTranslations(filePath: string): Promise<TranslationMap> {
-	try {
-		const workspaceFolders = vscode.workspace.workspaceFolders;
-		if (!workspaceFolders || workspaceFolders.length === 0) {
-			throw new Error("No workspace folder found");
-		}
-
-		const absPath = path.resolve(workspaceFolders[0].uri.fsPath, filePath);
-
-		if (!fs.existsSync(absPath)) {
-			throw new Error(`Translation file not found: ${absPath}`);
-		}
-
-		// Read the translation file
-		const fileContent = fs.readFileSync(absPath, "utf-8");
-
-		// Extract the object from the export default statement
-		const match = fileContent.match(/export\s+default\s+(\{[\s\S]*\})/);
-		if (!match) {
-			throw new Error("Translation file must export a default object");
-		}
-
-		const objectString = match[1];
-		const translationObj = parseObjectLiteral(objectString);
-
-		if (!translationObj || typeof translationObj !== "object") {
-			throw new Error("Translation file must export a default object");
+	private async editCatalogue(msg: {
+		type: "editValues" | "addKey" | "renameKey" | "deleteKey";
+		key: string;
+		folderUri?: string;
+		values?: Record<string, string>;
+	}) {
+		const folder = this.store.findFolder(msg.folderUri);
+		if (!folder) {
+			return;
 		}
-
-		const map: TranslationMap = {};
-
-		function flatten(obj: any, prefix = "") {
-			if (typeof obj === "string") {
-				if (!map[obj]) {
-					map[obj] = [];
-				}
-				map[obj].push(prefix);
-			} else if (typeof obj === "object" && obj !== null) {
-				for (const key in obj) {
-					flatten(obj[key], prefix ? `${prefix}.${key}` : key);
-				}
-			}
+		switch (msg.type) {
+			case "editValues":
+				await updateValues(this.store, folder, msg.key, msg.values ?? {});
+				break;
+			case "addKey":
+				await addSiblingKey(this.store, folder, msg.key);
+				break;
+			case "renameKey":
+				await vscode.commands.executeCommand(
+					"i18n-search.renameKey",
+					msg.key,
+					msg.folderUri,
+				);
+				break;
+			case "deleteKey":
+				await deleteKey(this.store, folder, msg.key);
+				break;
 		}
-
-		flatten(translationObj);
-		getLogger().debug("Translation map loaded:", map);
-		getLogger().debug("Translation values:", Object.keys(map));
-		return map;
-	} catch (error) {
-		getLogger().error("Failed to load translations:", error);
-		return {};
 	}
 }
 
 export function activate(context: vscode.ExtensionContext) {
-	logger = new Logger();
+	const logger = createLogger();
 
 	// Set log level from configuration
 	const config = vscode.workspace.getConfiguration("i18nSearch");
@@ -619,13 +759,30 @@ export function activate(context: vscode.ExtensionContext) {
 
 	logger.info("i18n-search extension is now active!");
 
-	let translationMap: TranslationMap = {};
-	let fileSystemProvider: I18nFileSystemProvider;
+	const store = new TranslationStore();
+	const usageIndex = new UsageIndex();
+	context.subscriptions.push(store, usageIndex);
+
 	const searchViewProvider: I18nSearchViewProvider = new I18nSearchViewProvider(
 		context,
+		store,
+		usageIndex,
 	);
 
-	const scheme = "i18n";
+	// Register the virtual file system of translation keys right away, so a
+	// workspace folder using it resolves before translations have loaded
+	const fileSystemProvider = new I18nFileSystemProvider(store);
+	context.subscriptions.push(
+		vscode.workspace.registerFileSystemProvider(
+			I18N_SCHEME,
+			fileSystemProvider,
+			{ isReadonly: true, isCaseSensitive: true },
+		),
+	);
+	const textSearchRegistration = registerI18nTextSearchProvider(store);
+	if (textSearchRegistration) {
+		context.subscriptions.push(textSearchRegistration);
+	}
 
 	// Register webview view provider immediately
 	getLogger().debug("Registering WebviewViewProvider...");
@@ -659,27 +816,11 @@ export function activate(context: vscode.ExtensionContext) {
 	);
 
 	async function initializeExtension() {
-		const config = vscode.workspace.getConfiguration("i18nSearch");
-		const translationFilepath = config.get<string>(
-			"translationFilepath",
-			"./src/i18n/en.ts",
-		);
-
 		try {
-			translationMap = await loadTranslations(translationFilepath);
-
-			// Register file system provider
-			fileSystemProvider = new I18nFileSystemProvider(translationMap);
-			context.subscriptions.push(
-				vscode.workspace.registerFileSystemProvider(
-					scheme,
-					fileSystemProvider,
-					{ isReadonly: true },
-				),
-			);
+			await store.reload();
 
 			getLogger().info(
-				`Loaded ${Object.keys(translationMap).length} translation values`,
+				`Loaded ${Object.keys(store.translationMap).length} translation values`,
 			);
 		} catch (error) {
 			getLogger().error("Failed to initialize i18n-search:", error);
@@ -689,67 +830,69 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	}
 
-	// Watch for changes in the translation file
-	function setupFileWatcher() {
-		const config = vscode.workspace.getConfiguration("i18nSearch");
-		const translationFilepath = config.get<string>(
-			"translationFilepath",
-			"./src/i18n/en.ts",
-		);
-
-		const workspaceFolders = vscode.workspace.workspaceFolders;
-		if (!workspaceFolders || workspaceFolders.length === 0) {
-			return;
-		}
-
-		const absPath = path.resolve(
-			workspaceFolders[0].uri.fsPath,
-			translationFilepath,
-		);
-
-		const watcher = vscode.workspace.createFileSystemWatcher(absPath);
-
-		watcher.onDidChange(async () => {
-			getLogger().info("Translation file changed, reloading...");
-			translationMap = await loadTranslations(translationFilepath);
-
-			if (fileSystemProvider) {
-				fileSystemProvider.updateTranslations(translationMap);
-			}
+	// Push reloaded translations to the providers
+	context.subscriptions.push(
+		store.onDidChange((changes) => {
+			fileSystemProvider.updateTranslations();
 
 			if (searchViewProvider) {
-				searchViewProvider.updateTranslations(translationMap);
+				searchViewProvider.updateTranslations(changes);
 			}
-		});
+		}),
+	);
+
+	// Keep the catalogues in sync with their files and settings
+	const catalogueWatcher = new CatalogueWatcher(store);
+	context.subscriptions.push(catalogueWatcher);
 
-		context.subscriptions.push(watcher);
+	// Handle clicks on virtual files, e.g. from workspace search results, by
+	// closing the virtual document and navigating to the key's real usages
+	const redirecting = new Set<string>();
+	async function redirectToKeyUsages(uri: vscode.Uri) {
+		const key = uriToKey(uri);
+		if (!key || redirecting.has(key)) {
+			return;
+		}
+
+		redirecting.add(key);
+		try {
+			const tabs = vscode.window.tabGroups.all
+				.flatMap((group) => group.tabs)
+				.filter(
+					(tab) =>
+						tab.input instanceof vscode.TabInputText &&
+						tab.input.uri.toString() === uri.toString(),
+				);
+			await vscode.window.tabGroups.close(tabs);
+			await revealKeyUsages(usageIndex, key);
+		} catch (error) {
+			getLogger().error("Error finding key usage:", error);
+			vscode.window.showErrorMessage(`Error finding usage for key: ${key}`);
+		} finally {
+			redirecting.delete(key);
+		}
 	}
 
-	// Handle clicks on virtual files
 	context.subscriptions.push(
-		vscode.workspace.onDidOpenTextDocument(async (document) => {
-			if (document.uri.scheme === scheme) {
-				const key = document.uri.path.slice(1, -3);
-				const keyPattern = `t("${key}")`;
-
-				try {
-					// Use the search API to find the key usage
-					await vscode.commands.executeCommand("workbench.action.findInFiles", {
-						query: keyPattern,
-						isRegex: false,
-						isCaseSensitive: true,
-					});
-
-					// Since we can't directly get the results, we'll show a message
-					vscode.window.showInformationMessage(
-						`Searching for key usage: ${keyPattern}`,
-					);
-				} catch (error) {
-					getLogger().error("Error finding key usage:", error);
-					vscode.window.showErrorMessage(`Error finding usage for key: ${key}`);
-				}
+		vscode.workspace.onDidOpenTextDocument((document) => {
+			if (document.uri.scheme === I18N_SCHEME) {
+				redirectToKeyUsages(document.uri);
 			}
 		}),
+		// Documents stay loaded after their tab closes, so reopening one only
+		// changes the active editor
+		vscode.window.onDidChangeActiveTextEditor((editor) => {
+			if (editor?.document.uri.scheme === I18N_SCHEME) {
+				redirectToKeyUsages(editor.document.uri);
+			}
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			"i18n-search.addTranslationsToWorkspace",
+			addTranslationsToWorkspace,
+		),
 	);
 
 	// Register a command to search for translation keys
@@ -769,12 +912,7 @@ export function activate(context: vscode.ExtensionContext) {
 					}
 				}
 
-				const keyPattern = `t("${key}")`;
-				await vscode.commands.executeCommand("workbench.action.findInFiles", {
-					query: keyPattern,
-					isRegex: false,
-					isCaseSensitive: true,
-				});
+				await searchKeyInFiles(key);
 			},
 		),
 	);
@@ -796,20 +934,15 @@ export function activate(context: vscode.ExtensionContext) {
 					}
 				}
 
-				const matchingKeys = Object.entries(translationMap)
+				const matchingKeys = store.locales
+					.flatMap((catalogue) => Object.entries(catalogue.map))
 					.filter(([translationValue]) =>
 						translationValue.toLowerCase().includes(value!.toLowerCase()),
 					)
 					.flatMap(([, keys]) => keys);
 
 				if (matchingKeys.length > 0) {
-					const key = matchingKeys[0];
-					const keyPattern = `t("${key}")`;
-					await vscode.commands.executeCommand("workbench.action.findInFiles", {
-						query: keyPattern,
-						isRegex: false,
-						isCaseSensitive: true,
-					});
+					await searchKeyInFiles(matchingKeys[0]);
 				} else {
 					vscode.window.showInformationMessage(
 						`No translation keys found for value: ${value}`,
@@ -832,17 +965,11 @@ export function activate(context: vscode.ExtensionContext) {
 		}),
 	);
 
-	// Initialize the extension
+	// Initialize the extension, then watch the catalogues of the loaded packages
 	initializeExtension().then(() => {
-		// Update the search view with translations after they're loaded
-		if (searchViewProvider && translationMap) {
-			searchViewProvider.updateTranslations(translationMap);
-		}
+		catalogueWatcher.watch();
 	});
-	setupFileWatcher();
-
-	// Update search view immediately with empty translations so UI shows up
-	searchViewProvider.updateTranslations({});
+	usageIndex.ready();
 
 	// Register commands
 	const disposable = vscode.commands.registerCommand(
@@ -876,6 +1003,19 @@ export function activate(context: vscode.ExtensionContext) {
 		}),
 	);
 
+	// Register commands to save and recall searches of the search view
+	context.subscriptions.push(
+		vscode.commands.registerCommand("i18n-search.saveSearch", () =>
+			searchViewProvider.saveSearch(),
+		),
+		vscode.commands.registerCommand("i18n-search.showSearchHistory", () =>
+			searchViewProvider.showHistory(),
+		),
+		vscode.commands.registerCommand("i18n-search.clearSearchHistory", () =>
+			searchViewProvider.clearHistory(),
+		),
+	);
+
 	// Register command to search codebase
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
@@ -891,7 +1031,7 @@ export function activate(context: vscode.ExtensionContext) {
 					}
 				}
 
-				await vscode.commands.executeCommand("workbench.action.findInFiles", {
+				await openSearchView({
 					query: searchTerm,
 					isRegex: false,
 					isCaseSensitive: false,
@@ -900,6 +1040,101 @@ export function activate(context: vscode.ExtensionContext) {
 		),
 	);
 
+	registerSearchCommands(context, store);
+
+	// Replace hard-coded strings with keys, or extract them to the catalogue
+	registerExtractStringActions(context, store, USAGE_DOCUMENT_SELECTOR);
+
+	// Show translations when hovering key usages
+	context.subscriptions.push(
+		vscode.languages.registerHoverProvider(
+			USAGE_DOCUMENT_SELECTOR,
+			new TranslationHoverProvider(store),
+		),
+	);
+
+	// Suggest keys, and keys holding a typed value, inside translation calls
+	context.subscriptions.push(
+		vscode.languages.registerCompletionItemProvider(
+			USAGE_DOCUMENT_SELECTOR,
+			new KeyCompletionProvider(store),
+			...KEY_COMPLETION_TRIGGERS,
+		),
+	);
+
+	// Show the value of each key after its call
+	registerTranslationDecorations(context, store);
+
+	// Report missing, unused and duplicate keys in the Problems panel
+	context.subscriptions.push(new TranslationDiagnostics(store, usageIndex));
+
+	// Compare each locale with the reference catalogue
+	registerCoverageView(context, store);
+
+	// List user-facing strings written in code instead of translation calls
+	registerHardcodedStringsView(context, store, usageIndex);
+
+	// Go to Definition on key usages and Find All References on keys
+	context.subscriptions.push(
+		vscode.languages.registerDefinitionProvider(
+			USAGE_DOCUMENT_SELECTOR,
+			new KeyDefinitionProvider(store),
+		),
+		vscode.languages.registerReferenceProvider(
+			{ scheme: "file" },
+			new KeyReferenceProvider(store, usageIndex),
+		),
+	);
+
+	// Rename keys in every catalogue and usage, with a preview
+	registerKeyRename(context, store, usageIndex);
+
+	// Register command to open a key's definition in the catalogue
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			"i18n-search.openKeyDefinition",
+			async (key?: string, locale?: string | null, folderUri?: string) => {
+				if (!key) {
+					key = await vscode.window.showInputBox({
+						prompt: "Enter the translation key to open",
+						placeHolder: "e.g., common.hello",
+					});
+					if (!key) {
+						return;
+					}
+				}
+				const folder = store.findFolder(folderUri);
+				if (!folder) {
+					vscode.window.showInformationMessage(
+						"No translation catalogue is loaded",
+					);
+					return;
+				}
+				await openKeyDefinition(folder, key, locale ?? undefined);
+			},
+		),
+	);
+
+	// Register command to list every usage of a key
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			"i18n-search.findKeyUsages",
+			async (key?: string) => {
+				if (!key) {
+					key = await vscode.window.showInputBox({
+						prompt: "Enter the translation key to find usages of",
+						placeHolder: "e.g., common.hello",
+					});
+					if (!key) {
+						return;
+					}
+				}
+
+				await revealKeyUsages(usageIndex, key, undefined, { pick: true });
+			},
+		),
+	);
+
 	// Register command to show log output
 	context.subscriptions.push(
 		vscode.commands.registerCommand("i18n-search.showLogs", () => {
@@ -0,0 +1,428 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { EntryEdit } from "./catalogueWriter";
+import { getLoader } from "./loaders";
+import type { LoadedTranslations } from "./loaders/types";
+import { getLogger } from "./logger";
+import {
+	findPackage,
+	type NamespaceMapping,
+	packageNamespace,
+	qualifyKey,
+	unqualifyKey,
+} from "./namespaces";
+import type { SourceLocation } from "./sourceLocation";
+
+export { flatten } from "./loaders/flatten";
+export { parseObjectLiteral } from "./loaders/typescript";
+
+/** Maps a translated value to every key that resolves to it */
+export interface TranslationMap {
+	[key: string]: string[];
+}
+
+/** Flattened translations of a single locale file */
+export interface LocaleCatalogue {
+	locale: string;
+	filePath: string;
+	/** Flattened key (e.g. `common.hello`) to translated value */
+	entries: Record<string, string>;
+	/** Where each key is defined in the file, when the loader can tell */
+	locations: Record<string, SourceLocation>;
+	map: TranslationMap;
+	/** Namespace prefixed to every key, for catalogues discovered in packages */
+	namespace?: string;
+}
+
+/**
+ * The reference catalogue and other locales of one translation source: the
+ * configured catalogue, or one discovered package.
+ */
+export interface CatalogueGroup {
+	/** Namespace qualifying the keys of a discovered package */
+	namespace?: string;
+	/** Directory the group's locale paths are relative to */
+	rootDir: string;
+	/** Reference locale first */
+	catalogues: LocaleCatalogue[];
+}
+
+/** Locale to path map, or a single path containing a `{locale}` placeholder */
+export type LocaleFilepathsSetting = string | Record<string, string>;
+
+/** Keys added, removed or given another value between two versions */
+export interface EntriesDiff {
+	added: string[];
+	removed: string[];
+	changed: string[];
+}
+
+export interface LocaleFile {
+	locale: string;
+	filePath: string;
+}
+
+const LOCALE_PLACEHOLDER = "{locale}";
+
+export function buildTranslationMap(
+	entries: Record<string, string>,
+): TranslationMap {
+	const map: TranslationMap = {};
+	for (const [key, value] of Object.entries(entries)) {
+		if (!map[value]) {
+			map[value] = [];
+		}
+		map[value].push(key);
+	}
+	return map;
+}
+
+export async function loadTranslations(
+	absPath: string,
+): Promise<LoadedTranslations> {
+	if (!fs.existsSync(absPath)) {
+		throw new Error(`Translation file not found: ${absPath}`);
+	}
+
+	const loader = getLoader(absPath);
+	if (!loader) {
+		throw new Error(
+			`Unsupported translation file type: ${path.extname(absPath) || absPath}`,
+		);
+	}
+
+	// Read the translation file
+	const fileContent = await fs.promises.readFile(absPath, "utf-8");
+
+	return loader.load(fileContent, absPath);
+}
+
+/**
+ * Loads one locale file. With a namespace, keys are qualified with it, e.g.
+ * `checkout:title` for `title`.
+ */
+export async function loadLocaleCatalogue(
+	file: LocaleFile,
+	namespace?: string,
+): Promise<LocaleCatalogue> {
+	const loaded = await loadTranslations(file.filePath);
+	const entries = qualifyKeys(loaded.entries, namespace);
+	getLogger().debug(`Translation entries loaded for ${file.locale}:`, entries);
+	return {
+		locale: file.locale,
+		filePath: file.filePath,
+		entries,
+		locations: qualifyKeys(loaded.locations, namespace),
+		map: buildTranslationMap(entries),
+		namespace,
+	};
+}
+
+/**
+ * Loads the locale files of a group, reference first. The reference must
+ * load; other locales that fail are reported through `onError` and skipped.
+ */
+export async function loadCatalogueGroup(
+	rootDir: string,
+	files: LocaleFile[],
+	namespace?: string,
+	onError: (file: LocaleFile, error: unknown) => void = () => {},
+): Promise<CatalogueGroup> {
+	const catalogues: LocaleCatalogue[] = [];
+	for (const file of files) {
+		try {
+			catalogues.push(await loadLocaleCatalogue(file, namespace));
+		} catch (error) {
+			if (catalogues.length === 0) {
+				throw error;
+			}
+			onError(file, error);
+		}
+	}
+	return { namespace, rootDir, catalogues };
+}
+
+/**
+ * Loads a group for each catalogue file matching `i18nSearch.catalogueGlob`,
+ * e.g. one per package of a monorepo. Each package's keys are qualified with
+ * its namespace and its other locales are resolved relative to the package.
+ */
+export async function discoverCatalogueGroups(
+	rootDir: string,
+	catalogueFiles: string[],
+	localeFilepaths: LocaleFilepathsSetting,
+	mapping: NamespaceMapping,
+): Promise<CatalogueGroup[]> {
+	const groups: CatalogueGroup[] = [];
+	const namespaces = new Set<string>();
+
+	for (const filePath of [...catalogueFiles].sort()) {
+		const pkg = findPackage(filePath, rootDir);
+		const namespace = packageNamespace(pkg, rootDir, mapping);
+		if (namespaces.has(namespace)) {
+			getLogger().warn(
+				`Skipping ${path.relative(rootDir, filePath)}: namespace "${namespace}" is already used`,
+			);
+			continue;
+		}
+
+		const files = resolveLocaleFiles(pkg.dir, filePath, localeFilepaths);
+		const onError = (file: LocaleFile, error: unknown) =>
+			getLogger().error(
+				`Failed to load translations of ${namespace} for locale ${file.locale}:`,
+				error,
+			);
+		try {
+			groups.push(await loadCatalogueGroup(pkg.dir, files, namespace, onError));
+			namespaces.add(namespace);
+		} catch (error) {
+			onError(files[0], error);
+		}
+	}
+
+	return groups;
+}
+
+function qualifyKeys<T>(
+	record: Record<string, T>,
+	namespace: string | undefined,
+): Record<string, T> {
+	if (!namespace) {
+		return record;
+	}
+	return Object.fromEntries(
+		Object.entries(record).map(([key, value]) => [
+			qualifyKey(namespace, key),
+			value,
+		]),
+	);
+}
+
+/** Compares the entries of a catalogue before and after it was changed */
+export function diffEntries(
+	previous: Record<string, string>,
+	current: Record<string, string>,
+): EntriesDiff {
+	const diff: EntriesDiff = { added: [], removed: [], changed: [] };
+	for (const [key, value] of Object.entries(current)) {
+		if (!(key in previous)) {
+			diff.added.push(key);
+		} else if (previous[key] !== value) {
+			diff.changed.push(key);
+		}
+	}
+	for (const key of Object.keys(previous)) {
+		if (!(key in current)) {
+			diff.removed.push(key);
+		}
+	}
+	return diff;
+}
+
+/** Key as written in the catalogue file, without its namespace */
+export function catalogueKey(catalogue: LocaleCatalogue, key: string): string {
+	return unqualifyKey(catalogue.namespace, key);
+}
+
+/**
+ * File defining a key when it is not the catalogue file itself, such as a
+ * module the catalogue imports. The key can only be edited in that file.
+ */
+export function definingFile(
+	catalogue: LocaleCatalogue,
+	key: string,
+): string | undefined {
+	const filePath = catalogue.locations[key]?.filePath;
+	return filePath && filePath !== catalogue.filePath ? filePath : undefined;
+}
+
+/**
+ * Applies an edit to the entries and value map of a loaded catalogue, so that
+ * it matches its edited file without loading it again. Keys are qualified.
+ */
+export function applyEntryEdit(catalogue: LocaleCatalogue, edit: EntryEdit) {
+	const { entries, map, locations } = catalogue;
+	const unmap = (key: string) => {
+		const keys = map[entries[key]]?.filter((candidate) => candidate !== key);
+		if (keys?.length) {
+			map[entries[key]] = keys;
+		} else {
+			delete map[entries[key]];
+		}
+	};
+	const set = (key: string, value: string) => {
+		entries[key] = value;
+		map[value] = [...(map[value] ?? []), key];
+	};
+
+	if (edit.key in entries) {
+		unmap(edit.key);
+	}
+	switch (edit.type) {
+		case "add":
+		case "update":
+			set(edit.key, edit.value);
+			break;
+		case "rename": {
+			const value = entries[edit.key];
+			delete entries[edit.key];
+			set(edit.newKey, value);
+			if (locations[edit.key]) {
+				locations[edit.newKey] = locations[edit.key];
+				delete locations[edit.key];
+			}
+			break;
+		}
+		case "delete":
+			delete entries[edit.key];
+			delete locations[edit.key];
+			break;
+	}
+}
+
+/**
+ * Finds the keys of a catalogue again in its edited content, as lines may
+ * have moved. Keeps the previous locations if the content cannot be parsed.
+ */
+export async function relocateEntries(
+	catalogue: LocaleCatalogue,
+	content: string,
+) {
+	try {
+		const loaded = await getLoader(catalogue.filePath)?.load(
+			content,
+			catalogue.filePath,
+		);
+		if (loaded) {
+			catalogue.locations = qualifyKeys(loaded.locations, catalogue.namespace);
+		}
+	} catch (error) {
+		getLogger().debug(`Could not locate keys in ${catalogue.filePath}:`, error);
+	}
+}
+
+/**
+ * Resolves the reference translation file and any additional locale files
+ * configured through `i18nSearch.localeFilepaths`. The reference locale is
+ * always returned first.
+ */
+export function resolveLocaleFiles(
+	rootDir: string,
+	referencePath: string,
+	localeFilepaths?: LocaleFilepathsSetting,
+): LocaleFile[] {
+	const referenceFile = path.resolve(rootDir, referencePath);
+	let candidates: LocaleFile[] = [];
+
+	if (typeof localeFilepaths === "string" && localeFilepaths.trim()) {
+		candidates = expandLocalePattern(rootDir, localeFilepaths);
+	} else if (localeFilepaths && typeof localeFilepaths === "object") {
+		candidates = Object.entries(localeFilepaths).map(([locale, filePath]) => ({
+			locale,
+			filePath: path.resolve(rootDir, filePath),
+		}));
+	}
+
+	const reference = candidates.find(
+		(candidate) => candidate.filePath === referenceFile,
+	) ?? {
+		locale: inferLocale(referenceFile, rootDir, localeFilepaths),
+		filePath: referenceFile,
+	};
+
+	const others = candidates
+		.filter(
+			(candidate) =>
+				candidate.filePath !== referenceFile &&
+				candidate.locale !== reference.locale,
+		)
+		.sort((a, b) => a.locale.localeCompare(b.locale));
+
+	return [reference, ...others];
+}
+
+/**
+ * Globs of the files `i18nSearch.localeFilepaths` may resolve to, relative to
+ * the same directory, e.g. `src/i18n/*.json` for `src/i18n/{locale}.json`.
+ */
+export function localeFileGlobs(
+	localeFilepaths?: LocaleFilepathsSetting,
+): string[] {
+	if (typeof localeFilepaths === "string") {
+		return localeFilepaths.trim()
+			? [localeFilepaths.split(LOCALE_PLACEHOLDER).join("*")]
+			: [];
+	}
+	return Object.values(localeFilepaths ?? {});
+}
+
+function inferLocale(
+	filePath: string,
+	rootDir: string,
+	localeFilepaths?: LocaleFilepathsSetting,
+): string {
+	if (typeof localeFilepaths === "string" && localeFilepaths.trim()) {
+		const match = localePatternToRegExp(
+			path.resolve(rootDir, localeFilepaths),
+		).exec(filePath);
+		if (match) {
+			return match[1];
+		}
+	}
+	return path.basename(filePath, path.extname(filePath));
+}
+
+function localePatternToRegExp(pattern: string): RegExp {
+	const [before, ...rest] = pattern.split(LOCALE_PLACEHOLDER);
+	const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	// Later placeholders must repeat the locale captured by the first one
+	return new RegExp(
+		`^${escape(before)}([^\\/]+?)${rest.map(escape).join("\\1")}$`,
+	);
+}
+
+/**
+ * Expands a path such as `src/i18n/{locale}.ts` or `locales/{locale}/app.json`
+ * by listing the directory holding the first `{locale}` segment.
+ */
+function expandLocalePattern(rootDir: string, pattern: string): LocaleFile[] {
+	const absPattern = path.resolve(rootDir, pattern);
+	if (!absPattern.includes(LOCALE_PLACEHOLDER)) {
+		getLogger().warn(
+			`Locale file pattern has no ${LOCALE_PLACEHOLDER} placeholder: ${pattern}`,
+		);
+		return [];
+	}
+
+	const segments = absPattern.split(path.sep);
+	const index = segments.findIndex((segment) =>
+		segment.includes(LOCALE_PLACEHOLDER),
+	);
+	const baseDir = segments.slice(0, index).join(path.sep) || path.sep;
+	const segmentRegExp = localePatternToRegExp(segments[index]);
+
+	if (!fs.existsSync(baseDir)) {
+		getLogger().warn(`Locale directory not found: ${baseDir}`);
+		return [];
+	}
+
+	const files: LocaleFile[] = [];
+	for (const entry of fs.readdirSync(baseDir)) {
+		const match = segmentRegExp.exec(entry);
+		if (!match) {
+			continue;
+		}
+		const locale = match[1];
+		const filePath = path.join(
+			baseDir,
+			entry,
+			...segments
+				.slice(index + 1)
+				.map((segment) => segment.split(LOCALE_PLACEHOLDER).join(locale)),
+		);
+		if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
+			files.push({ locale, filePath });
+		}
+	}
+	return files;
+}
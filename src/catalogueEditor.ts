@@ -0,0 +1,191 @@
+import * as vscode from "vscode";
+import { catalogueKey, definingFile, type LocaleCatalogue } from "./catalogue";
+import { type EntryEdit, entryEditChange } from "./catalogueWriter";
+import { getLogger } from "./logger";
+import type { FolderTranslations, TranslationStore } from "./translationStore";
+
+/**
+ * Writes an edit of one entry to a catalogue file and updates the loaded
+ * catalogue in place. Keys are qualified; the file is saved unless it already
+ * had unsaved changes.
+ */
+export async function editCatalogueEntry(
+	store: TranslationStore,
+	catalogue: LocaleCatalogue,
+	edit: EntryEdit,
+) {
+	const uri = vscode.Uri.file(catalogue.filePath);
+	const document = await vscode.workspace.openTextDocument(uri);
+	const wasDirty = document.isDirty;
+	const change = entryEditChange(
+		document.getText(),
+		catalogue.filePath,
+		fileEdit(catalogue, edit),
+	);
+
+	const workspaceEdit = new vscode.WorkspaceEdit();
+	workspaceEdit.replace(
+		uri,
+		new vscode.Range(
+			document.positionAt(change.offset),
+			document.positionAt(change.offset + change.length),
+		),
+		change.text,
+	);
+	if (!(await vscode.workspace.applyEdit(workspaceEdit))) {
+		throw new Error("The edit could not be applied");
+	}
+
+	await store.applyEdit(catalogue, edit, document.getText());
+	if (!wasDirty) {
+		store.recordWrite(catalogue.filePath, document.getText());
+		await document.save();
+	}
+}
+
+/** The edit with keys as written in the catalogue file */
+function fileEdit(catalogue: LocaleCatalogue, edit: EntryEdit): EntryEdit {
+	const filePath = edit.type !== "add" && definingFile(catalogue, edit.key);
+	if (filePath) {
+		throw new Error(
+			`${edit.key} is defined in ${vscode.workspace.asRelativePath(filePath)}; edit it there`,
+		);
+	}
+	if (edit.type !== "rename") {
+		return { ...edit, key: catalogueKey(catalogue, edit.key) };
+	}
+	const newKey = catalogueKey(catalogue, edit.newKey);
+	if (catalogue.namespace && newKey === edit.newKey) {
+		throw new Error(
+			`Keys cannot be moved out of the "${catalogue.namespace}" namespace`,
+		);
+	}
+	return { ...edit, key: catalogueKey(catalogue, edit.key), newKey };
+}
+
+/**
+ * Sets the values of a key in several locales, adding it to the catalogues
+ * of locales that do not define it yet. Unchanged values are left alone.
+ */
+export async function updateValues(
+	store: TranslationStore,
+	folder: FolderTranslations,
+	key: string,
+	values: Record<string, string>,
+) {
+	for (const catalogue of folder.cataloguesFor(key)) {
+		const value = values[catalogue.locale];
+		const exists = key in catalogue.entries;
+		if (
+			value === undefined ||
+			value === catalogue.entries[key] ||
+			(!exists && !value)
+		) {
+			continue;
+		}
+		await runEdit(`update ${key} in ${catalogue.locale}`, () =>
+			editCatalogueEntry(store, catalogue, {
+				type: exists ? "update" : "add",
+				key,
+				value,
+			}),
+		);
+	}
+}
+
+/** Asks for a new key next to `key` and its value in the reference locale */
+export async function addSiblingKey(
+	store: TranslationStore,
+	folder: FolderTranslations,
+	key: string,
+) {
+	const reference = folder.cataloguesFor(key)[0];
+	if (!reference) {
+		return;
+	}
+	const parent = key.slice(0, key.lastIndexOf(".") + 1);
+	const newKey = await vscode.window.showInputBox({
+		title: `Add a key next to ${key}`,
+		prompt: `New key in ${vscode.workspace.asRelativePath(reference.filePath)}`,
+		value: parent,
+		valueSelection: [parent.length, parent.length],
+		validateInput: (input) => validateNewKey(folder, key, input),
+	});
+	if (!newKey) {
+		return;
+	}
+	const value = await vscode.window.showInputBox({
+		title: `Value of ${newKey}`,
+		prompt: `Value in ${reference.locale}`,
+	});
+	if (value === undefined) {
+		return;
+	}
+	await runEdit(`add ${newKey}`, () =>
+		editCatalogueEntry(store, reference, { type: "add", key: newKey, value }),
+	);
+}
+
+/** Deletes a key from every locale after confirmation */
+export async function deleteKey(
+	store: TranslationStore,
+	folder: FolderTranslations,
+	key: string,
+) {
+	const catalogues = definingCatalogues(folder, key);
+	const confirmed = await vscode.window.showWarningMessage(
+		`Delete "${key}"?`,
+		{
+			modal: true,
+			detail: `The key is removed from ${catalogues
+				.map((catalogue) => catalogue.locale)
+				.join(", ")}.`,
+		},
+		"Delete",
+	);
+	if (confirmed !== "Delete") {
+		return;
+	}
+	for (const catalogue of catalogues) {
+		await runEdit(`delete ${key} from ${catalogue.locale}`, () =>
+			editCatalogueEntry(store, catalogue, { type: "delete", key }),
+		);
+	}
+}
+
+function definingCatalogues(
+	folder: FolderTranslations,
+	key: string,
+): LocaleCatalogue[] {
+	return folder
+		.cataloguesFor(key)
+		.filter((catalogue) => key in catalogue.entries);
+}
+
+function validateNewKey(
+	folder: FolderTranslations,
+	key: string,
+	input: string,
+): string | undefined {
+	if (!input.trim() || input.endsWith(".")) {
+		return "Enter a key";
+	}
+	if (folder.cataloguesFor(input) !== folder.cataloguesFor(key)) {
+		return "The key must stay in the same catalogue";
+	}
+	return Object.keys(folder.translationsFor(input)).length > 0
+		? `Translation key already exists: ${input}`
+		: undefined;
+}
+
+async function runEdit(description: string, edit: () => Promise<void>) {
+	try {
+		await edit();
+		getLogger().info(`Catalogue edit: ${description}`);
+	} catch (error) {
+		getLogger().error(`Failed to ${description}:`, error);
+		vscode.window.showErrorMessage(
+			`Failed to ${description}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+}
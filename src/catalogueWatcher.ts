@@ -0,0 +1,195 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { type LocaleFilepathsSetting, localeFileGlobs } from "./catalogue";
+import { toPosixPath } from "./glob";
+import { getLogger } from "./logger";
+import type { TranslationStore } from "./translationStore";
+
+/** Settings locating the catalogues, which reload every folder */
+const CATALOGUE_SETTINGS = [
+	"i18nSearch.translationFilepath",
+	"i18nSearch.localeFilepaths",
+	"i18nSearch.catalogueGlob",
+	"i18nSearch.namespaces",
+];
+
+const GLOB_CHARACTERS = /[*?[{]/;
+
+interface PendingEvent {
+	timeout: NodeJS.Timeout;
+	/** Whether the file was created or deleted, not only changed */
+	structural: boolean;
+}
+
+/**
+ * Keeps the store in sync with the catalogue files. A changed catalogue is
+ * loaded again on its own; a created or deleted one, a change to the settings
+ * locating catalogues or to the workspace folders reloads every folder.
+ */
+export class CatalogueWatcher implements vscode.Disposable {
+	private watchers: vscode.FileSystemWatcher[] = [];
+	private disposables: vscode.Disposable[] = [];
+	private pendingEvents = new Map<string, PendingEvent>();
+	/** Reloads run one after the other */
+	private queue: Promise<void> = Promise.resolve();
+
+	constructor(private store: TranslationStore) {
+		this.disposables.push(
+			vscode.workspace.onDidChangeWorkspaceFolders(() =>
+				this.enqueue(() => this.reloadAll("Workspace folders changed")),
+			),
+			vscode.workspace.onDidChangeConfiguration((event) => {
+				if (
+					CATALOGUE_SETTINGS.some((setting) =>
+						event.affectsConfiguration(setting),
+					)
+				) {
+					this.enqueue(() => this.reloadAll("Catalogue settings changed"));
+				}
+			}),
+		);
+	}
+
+	/** Watches the configured catalogue files of every workspace folder */
+	watch() {
+		this.watchers.forEach((watcher) => watcher.dispose());
+		this.watchers = this.watchedPatterns().map((pattern) => {
+			const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+			watcher.onDidChange((uri) => this.schedule(uri, false));
+			watcher.onDidCreate((uri) => this.schedule(uri, true));
+			watcher.onDidDelete((uri) => this.schedule(uri, true));
+			return watcher;
+		});
+	}
+
+	/**
+	 * Patterns of every file that may be a catalogue: the configured
+	 * reference files and locale files of each folder, and the locale files
+	 * of each discovered package.
+	 */
+	private watchedPatterns(): vscode.RelativePattern[] {
+		const patterns = new Map<string, vscode.RelativePattern>();
+		const add = (rootDir: string, glob: string) => {
+			const pattern = relativePattern(path.resolve(rootDir, glob));
+			patterns.set(`${pattern.baseUri.fsPath}|${pattern.pattern}`, pattern);
+		};
+
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			if (folder.uri.scheme !== "file") {
+				continue;
+			}
+			const config = vscode.workspace.getConfiguration(
+				"i18nSearch",
+				folder.uri,
+			);
+			const localeGlobs = localeFileGlobs(
+				config.get<LocaleFilepathsSetting>("localeFilepaths", ""),
+			);
+			const catalogueGlob = config.get<string>("catalogueGlob", "").trim();
+			if (catalogueGlob) {
+				add(folder.uri.fsPath, catalogueGlob);
+				const translations = this.store.folders.find(
+					(translations) =>
+						translations.folder.uri.toString() === folder.uri.toString(),
+				);
+				for (const group of translations?.groups ?? []) {
+					localeGlobs.forEach((glob) => add(group.rootDir, glob));
+				}
+			} else {
+				add(
+					folder.uri.fsPath,
+					config.get<string>("translationFilepath", "./src/i18n/en.ts"),
+				);
+				localeGlobs.forEach((glob) => add(folder.uri.fsPath, glob));
+			}
+		}
+		return [...patterns.values()];
+	}
+
+	/**
+	 * Handles a file once its burst of events has settled, as saving can
+	 * report several, and a file may match more than one pattern
+	 */
+	private schedule(uri: vscode.Uri, structural: boolean) {
+		const filePath = uri.fsPath;
+		const pending = this.pendingEvents.get(filePath);
+		clearTimeout(pending?.timeout);
+		this.pendingEvents.set(filePath, {
+			structural: structural || !!pending?.structural,
+			timeout: setTimeout(() => {
+				const { structural } = this.pendingEvents.get(filePath) ?? {};
+				this.pendingEvents.delete(filePath);
+				this.enqueue(() => this.fileChanged(filePath, !!structural));
+			}, 100),
+		});
+	}
+
+	private async fileChanged(filePath: string, structural: boolean) {
+		if (!structural && this.store.filePaths.includes(filePath)) {
+			if (await this.store.isOwnWrite(filePath)) {
+				// Edits from the search view are already reflected
+				return;
+			}
+			getLogger().info(
+				`Translation file changed, reloading: ${path.basename(filePath)}`,
+			);
+			try {
+				await this.store.reloadFile(filePath);
+			} catch (error) {
+				// The previous entries are kept until the file loads again
+				getLogger().error("Failed to reload translations:", error);
+			}
+			return;
+		}
+		if (filePath.split(path.sep).includes("node_modules")) {
+			// Packages are never discovered in dependencies
+			return;
+		}
+		// A catalogue was created or deleted, or one that failed to load changed
+		await this.reloadAll(
+			`Translation file ${structural ? "created or deleted" : "changed"}: ${path.basename(filePath)}`,
+		);
+	}
+
+	private async reloadAll(reason: string) {
+		getLogger().info(`${reason}, reloading translations`);
+		try {
+			await this.store.reload();
+		} catch (error) {
+			getLogger().error("Failed to reload translations:", error);
+			vscode.window.showErrorMessage(
+				`Failed to load translation file: ${error}`,
+			);
+		}
+		// The loaded packages, and so the watched locale files, may differ
+		this.watch();
+	}
+
+	private enqueue(task: () => Promise<void>) {
+		this.queue = this.queue.then(task, task);
+	}
+
+	dispose() {
+		for (const { timeout } of this.pendingEvents.values()) {
+			clearTimeout(timeout);
+		}
+		this.watchers.forEach((watcher) => watcher.dispose());
+		this.disposables.forEach((disposable) => disposable.dispose());
+	}
+}
+
+/**
+ * Splits an absolute glob into the directory before its first wildcard and
+ * the pattern below it, so files outside the workspace can be watched too
+ */
+function relativePattern(absGlob: string): vscode.RelativePattern {
+	const segments = toPosixPath(absGlob).split("/");
+	let index = segments.findIndex((segment) => GLOB_CHARACTERS.test(segment));
+	if (index < 0) {
+		index = segments.length - 1;
+	}
+	return new vscode.RelativePattern(
+		vscode.Uri.file(segments.slice(0, index).join("/") || "/"),
+		segments.slice(index).join("/"),
+	);
+}
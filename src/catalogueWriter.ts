@@ -0,0 +1,1407 @@
+import * as path from "path";
+import * as ts from "typescript";
+import {
+	type Document,
+	isMap,
+	isNode,
+	isScalar,
+	type Pair,
+	parseDocument,
+	type Scalar,
+	stringify,
+	type YAMLMap,
+} from "yaml";
+import {
+	GETTEXT_CONTEXT_SEPARATOR,
+	type PoMessage,
+	parsePo,
+} from "./loaders/gettext";
+import { stripBom } from "./loaders/json";
+import { unwrapExpression } from "./loaders/moduleEvaluator";
+import { logicalLines, unescapeProperties } from "./loaders/properties";
+import { LineIndex } from "./sourceLocation";
+
+/** Replacement of `length` characters at `offset` of a file's content */
+export interface TextChange {
+	offset: number;
+	length: number;
+	text: string;
+}
+
+/** An edit of one entry of a catalogue, with keys as written in the file */
+export type EntryEdit =
+	| { type: "add"; key: string; value: string }
+	| { type: "update"; key: string; value: string }
+	| { type: "rename"; key: string; newKey: string }
+	| { type: "delete"; key: string };
+
+type CatalogueFormat = "object" | "yaml" | "gettext" | "properties";
+
+function catalogueFormat(filePath: string): CatalogueFormat {
+	switch (path.extname(filePath).toLowerCase()) {
+		case ".yaml":
+		case ".yml":
+			return "yaml";
+		case ".po":
+		case ".pot":
+			return "gettext";
+		case ".properties":
+			return "properties";
+		default:
+			return "object";
+	}
+}
+
+/**
+ * Computes the change that applies an edit to a catalogue file. Only the
+ * edited entry is rewritten, so formatting and comments elsewhere are kept.
+ */
+export function entryEditChange(
+	content: string,
+	filePath: string,
+	edit: EntryEdit,
+): TextChange {
+	switch (edit.type) {
+		case "add":
+			return addEntryChange(content, filePath, edit.key, edit.value);
+		case "update":
+			return updateEntryChange(content, filePath, edit.key, edit.value);
+		case "rename":
+			return renameEntryChange(content, filePath, edit.key, edit.newKey);
+		case "delete":
+			return deleteEntryChange(content, filePath, edit.key);
+	}
+}
+
+/** Computes a single change applying several edits one after another */
+export function entryEditsChange(
+	content: string,
+	filePath: string,
+	edits: EntryEdit[],
+): TextChange {
+	return composeChanges(
+		content,
+		...edits.map(
+			(edit) => (text: string) => entryEditChange(text, filePath, edit),
+		),
+	);
+}
+
+/**
+ * Computes the change that adds `key` with `value` to a catalogue file,
+ * nesting it under existing parent objects where the format allows.
+ */
+export function addEntryChange(
+	content: string,
+	filePath: string,
+	key: string,
+	value: string,
+): TextChange {
+	switch (catalogueFormat(filePath)) {
+		case "yaml":
+			return addYamlEntry(content, key, value);
+		case "gettext":
+			return addGettextEntry(content, key, value);
+		case "properties":
+			return addPropertiesEntry(content, key, value);
+		default:
+			return addObjectEntry(content, objectRoot(content, filePath), key, value);
+	}
+}
+
+/** Computes the change that replaces the value of an existing key */
+export function updateEntryChange(
+	content: string,
+	filePath: string,
+	key: string,
+	value: string,
+): TextChange {
+	switch (catalogueFormat(filePath)) {
+		case "yaml":
+			return updateYamlEntry(content, key, value);
+		case "gettext":
+			return updateGettextEntry(content, key, value);
+		case "properties":
+			return updatePropertiesEntry(content, key, value);
+		default:
+			return updateObjectEntry(
+				content,
+				objectRoot(content, filePath),
+				key,
+				value,
+			);
+	}
+}
+
+/**
+ * Computes the change that renames a key. The entry is renamed in place when
+ * the new key stays in the same object, and moved otherwise.
+ */
+export function renameEntryChange(
+	content: string,
+	filePath: string,
+	key: string,
+	newKey: string,
+): TextChange {
+	switch (catalogueFormat(filePath)) {
+		case "yaml":
+			return renameYamlEntry(content, key, newKey);
+		case "gettext":
+			return renameGettextEntry(content, key, newKey);
+		case "properties":
+			return renamePropertiesEntry(content, key, newKey);
+		default: {
+			const root = objectRoot(content, filePath);
+			if (!root.style.metadata) {
+				return renameObjectEntry(content, root, key, newKey);
+			}
+			// ARB metadata (`@key`) follows its key
+			return composeChanges(
+				content,
+				(text) =>
+					renameObjectEntry(text, objectRoot(text, filePath), key, newKey),
+				(text) => {
+					const current = objectRoot(text, filePath);
+					return findObjectEntry(current, `@${key}`)
+						? renameObjectEntry(text, current, `@${key}`, `@${newKey}`)
+						: undefined;
+				},
+			);
+		}
+	}
+}
+
+/** Computes the change that removes a key, and any object it leaves empty */
+export function deleteEntryChange(
+	content: string,
+	filePath: string,
+	key: string,
+): TextChange {
+	switch (catalogueFormat(filePath)) {
+		case "yaml":
+			return deleteYamlEntry(content, key);
+		case "gettext":
+			return deleteGettextEntry(content, key);
+		case "properties":
+			return deletePropertiesEntry(content, key);
+		default: {
+			const root = objectRoot(content, filePath);
+			if (!root.style.metadata) {
+				return deleteObjectEntry(content, root, key);
+			}
+			return composeChanges(
+				content,
+				(text) => deleteObjectEntry(text, objectRoot(text, filePath), key),
+				(text) => {
+					const current = objectRoot(text, filePath);
+					return findObjectEntry(current, `@${key}`)
+						? deleteObjectEntry(text, current, `@${key}`)
+						: undefined;
+				},
+			);
+		}
+	}
+}
+
+function applyChange(content: string, change: TextChange): string {
+	return (
+		content.slice(0, change.offset) +
+		change.text +
+		content.slice(change.offset + change.length)
+	);
+}
+
+/** The single change turning `before` into `after` */
+function diffChange(before: string, after: string): TextChange {
+	let start = 0;
+	while (
+		start < before.length &&
+		start < after.length &&
+		before[start] === after[start]
+	) {
+		start++;
+	}
+	let end = 0;
+	while (
+		end < before.length - start &&
+		end < after.length - start &&
+		before[before.length - 1 - end] === after[after.length - 1 - end]
+	) {
+		end++;
+	}
+	return {
+		offset: start,
+		length: before.length - start - end,
+		text: after.slice(start, after.length - end),
+	};
+}
+
+/** Applies changes computed one after another as a single change */
+function composeChanges(
+	content: string,
+	...steps: ((text: string) => TextChange | undefined)[]
+): TextChange {
+	let result = content;
+	for (const step of steps) {
+		const change = step(result);
+		if (change) {
+			result = applyChange(result, change);
+		}
+	}
+	return diffChange(content, result);
+}
+
+function notFound(key: string): Error {
+	return new Error(`Translation key not found: ${key}`);
+}
+
+function alreadyExists(key: string): Error {
+	return new Error(`Translation key already exists: ${key}`);
+}
+
+interface ObjectStyle {
+	/** Quote every property name with double quotes */
+	json: boolean;
+	/** Whether new keys may be nested in objects, rather than kept flat */
+	nested: boolean;
+	/** Whether keys have `@key` metadata entries, as in ARB files */
+	metadata: boolean;
+}
+
+interface CatalogueRoot {
+	sourceFile: ts.SourceFile;
+	object: ts.ObjectLiteralExpression;
+	style: ObjectStyle;
+}
+
+/** The root object of a JSON, ARB or script catalogue */
+function objectRoot(content: string, filePath: string): CatalogueRoot {
+	switch (path.extname(filePath).toLowerCase()) {
+		case ".json":
+			return jsonRoot(content, filePath, {
+				json: true,
+				nested: true,
+				metadata: false,
+			});
+		case ".arb":
+			return jsonRoot(content, filePath, {
+				json: true,
+				nested: false,
+				metadata: true,
+			});
+		default:
+			return scriptRoot(content, filePath);
+	}
+}
+
+function jsonRoot(
+	content: string,
+	filePath: string,
+	style: ObjectStyle,
+): CatalogueRoot {
+	const sourceFile = ts.parseJsonText(filePath, content);
+	const statement = sourceFile.statements[0];
+	if (
+		statement &&
+		ts.isExpressionStatement(statement) &&
+		ts.isObjectLiteralExpression(statement.expression)
+	) {
+		return { sourceFile, object: statement.expression, style };
+	}
+	throw new Error(`${path.basename(filePath)} does not contain an object`);
+}
+
+/** The object literal of the default export, declared in the file itself */
+function scriptRoot(content: string, filePath: string): CatalogueRoot {
+	const sourceFile = ts.createSourceFile(
+		filePath,
+		content,
+		ts.ScriptTarget.Latest,
+		true,
+	);
+	let exported: ts.Expression | undefined;
+	for (const statement of sourceFile.statements) {
+		if (ts.isExportAssignment(statement)) {
+			exported = statement.expression;
+		} else if (
+			ts.isExpressionStatement(statement) &&
+			ts.isBinaryExpression(statement.expression) &&
+			statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+			statement.expression.left.getText(sourceFile) === "module.exports"
+		) {
+			exported = statement.expression.right;
+		}
+	}
+
+	const expression = exported && resolveObject(exported, sourceFile);
+	if (expression && ts.isObjectLiteralExpression(expression)) {
+		return {
+			sourceFile,
+			object: expression,
+			style: { json: false, nested: true, metadata: false },
+		};
+	}
+	throw new Error(
+		`Cannot find the exported translations object in ${path.basename(filePath)}`,
+	);
+}
+
+/** Unwraps type assertions and `Object.freeze(…)` around an object */
+function unwrapObject(
+	expression: ts.Expression,
+	sourceFile: ts.SourceFile,
+): ts.Expression {
+	const expr = unwrapExpression(expression);
+	if (
+		ts.isCallExpression(expr) &&
+		expr.arguments.length === 1 &&
+		expr.expression.getText(sourceFile) === "Object.freeze"
+	) {
+		return unwrapExpression(expr.arguments[0]);
+	}
+	return expr;
+}
+
+/**
+ * Follows identifiers to the object they are declared with in the same file.
+ * An identifier is left when it is imported, or not declared at all.
+ */
+function resolveObject(
+	expression: ts.Expression,
+	sourceFile: ts.SourceFile,
+): ts.Expression {
+	const seen = new Set<string>();
+	let resolved = unwrapObject(expression, sourceFile);
+	while (ts.isIdentifier(resolved) && !seen.has(resolved.text)) {
+		seen.add(resolved.text);
+		const initializer = findDeclaration(sourceFile, resolved.text);
+		if (!initializer) {
+			break;
+		}
+		resolved = unwrapObject(initializer, sourceFile);
+	}
+	return resolved;
+}
+
+/** Error for keys nested in an object that another file declares */
+function definedElsewhere(name: string): Error {
+	return new Error(
+		`"${name}" is imported from another file; edit the key in that file`,
+	);
+}
+
+function findDeclaration(
+	sourceFile: ts.SourceFile,
+	name: string,
+): ts.Expression | undefined {
+	for (const statement of sourceFile.statements) {
+		if (!ts.isVariableStatement(statement)) {
+			continue;
+		}
+		for (const declaration of statement.declarationList.declarations) {
+			if (
+				ts.isIdentifier(declaration.name) &&
+				declaration.name.text === name &&
+				declaration.initializer
+			) {
+				return declaration.initializer;
+			}
+		}
+	}
+	return undefined;
+}
+
+function propertyNameText(name: ts.PropertyName): string | undefined {
+	return ts.isIdentifier(name) ||
+		ts.isStringLiteral(name) ||
+		ts.isNumericLiteral(name) ||
+		ts.isNoSubstitutionTemplateLiteral(name)
+		? name.text
+		: undefined;
+}
+
+/** A property, or a shorthand property such as `{ common }`, named `name` */
+function findMember(
+	object: ts.ObjectLiteralExpression,
+	name: string,
+): ts.PropertyAssignment | ts.ShorthandPropertyAssignment | undefined {
+	return object.properties.find(
+		(
+			candidate,
+		): candidate is ts.PropertyAssignment | ts.ShorthandPropertyAssignment =>
+			(ts.isPropertyAssignment(candidate) &&
+				propertyNameText(candidate.name) === name) ||
+			(ts.isShorthandPropertyAssignment(candidate) &&
+				candidate.name.text === name),
+	);
+}
+
+/** Value of a property, the identifier itself for a shorthand property */
+function memberValue(
+	member: ts.PropertyAssignment | ts.ShorthandPropertyAssignment,
+): ts.Expression {
+	return ts.isPropertyAssignment(member) ? member.initializer : member.name;
+}
+
+/** Objects spread into an object, such as `common` in `{ ...common }` */
+function spreadObjects(
+	object: ts.ObjectLiteralExpression,
+	sourceFile: ts.SourceFile,
+): ts.ObjectLiteralExpression[] {
+	return (
+		object.properties
+			.filter(ts.isSpreadAssignment)
+			.map((spread) => resolveObject(spread.expression, sourceFile))
+			.filter(ts.isObjectLiteralExpression)
+			// Later spreads override earlier ones
+			.reverse()
+	);
+}
+
+/** A property defining a key, with the objects it is nested in */
+interface ObjectEntry {
+	property: ts.PropertyAssignment;
+	/** Objects from the root down to the one holding the property */
+	objects: ts.ObjectLiteralExpression[];
+	/** Properties holding the nested objects, outermost first */
+	ancestors: (ts.PropertyAssignment | ts.ShorthandPropertyAssignment)[];
+	/** Part of the key named by the ancestors */
+	prefix: string[];
+}
+
+/**
+ * Finds the property of a key, nested or with a flat dotted name. Objects
+ * referenced by name or spread are followed to their declaration in the
+ * file; keys in objects imported from another file cannot be edited here.
+ */
+function findObjectEntry(
+	{ sourceFile, object }: CatalogueRoot,
+	key: string,
+): ObjectEntry | undefined {
+	const segments = key.split(".");
+	const visit = (
+		target: ts.ObjectLiteralExpression,
+		index: number,
+		objects: ts.ObjectLiteralExpression[],
+		ancestors: ObjectEntry["ancestors"],
+	): ObjectEntry | undefined => {
+		for (let end = segments.length; end > index; end--) {
+			const name = segments.slice(index, end).join(".");
+			const member = findMember(target, name);
+			if (!member) {
+				continue;
+			}
+			if (end === segments.length) {
+				if (ts.isPropertyAssignment(member)) {
+					return {
+						property: member,
+						objects: [...objects, target],
+						ancestors,
+						prefix: segments.slice(0, index),
+					};
+				}
+				continue;
+			}
+			const value = resolveObject(memberValue(member), sourceFile);
+			if (ts.isIdentifier(value)) {
+				throw definedElsewhere(segments.slice(0, end).join("."));
+			}
+			const found =
+				ts.isObjectLiteralExpression(value) &&
+				visit(value, end, [...objects, target], [...ancestors, member]);
+			if (found) {
+				return found;
+			}
+		}
+		for (const spread of spreadObjects(target, sourceFile)) {
+			const found = visit(spread, index, objects, ancestors);
+			if (found) {
+				return found;
+			}
+		}
+		return undefined;
+	};
+	return visit(object, 0, [], []);
+}
+
+/** The property of a key whose value is a string literal */
+function findStringEntry(
+	root: CatalogueRoot,
+	key: string,
+): ObjectEntry & {
+	value: ts.StringLiteral | ts.NoSubstitutionTemplateLiteral;
+} {
+	const entry = findObjectEntry(root, key);
+	if (!entry) {
+		throw notFound(key);
+	}
+	const value = entry.property.initializer;
+	if (
+		!ts.isStringLiteral(value) &&
+		!ts.isNoSubstitutionTemplateLiteral(value)
+	) {
+		throw new Error(`The value of ${key} is not a plain string`);
+	}
+	return { ...entry, value };
+}
+
+function updateObjectEntry(
+	content: string,
+	root: CatalogueRoot,
+	key: string,
+	value: string,
+): TextChange {
+	const literal = findStringEntry(root, key).value;
+	const start = literal.getStart(root.sourceFile);
+	return {
+		offset: start,
+		length: literal.getEnd() - start,
+		// Keep the literal's own quotes
+		text: quoteString(value, root.style.json ? '"' : content[start]),
+	};
+}
+
+function renameObjectEntry(
+	content: string,
+	root: CatalogueRoot,
+	key: string,
+	newKey: string,
+): TextChange {
+	const entry = findObjectEntry(root, key);
+	if (!entry) {
+		throw notFound(key);
+	}
+	if (findObjectEntry(root, newKey)) {
+		throw alreadyExists(newKey);
+	}
+
+	const prefix = entry.prefix.join(".");
+	const name = newKey.startsWith(prefix ? `${prefix}.` : "")
+		? newKey.slice(prefix ? prefix.length + 1 : 0)
+		: undefined;
+	const nameNode = entry.property.name;
+	const flat = !root.style.nested || propertyNameText(nameNode)?.includes(".");
+	if (name && (flat || !name.includes("."))) {
+		const start = nameNode.getStart(root.sourceFile);
+		const quote = root.style.json
+			? '"'
+			: ts.isIdentifier(nameNode)
+				? detectQuote(root.sourceFile)
+				: content[start];
+		return {
+			offset: start,
+			length: nameNode.getEnd() - start,
+			text:
+				root.style.json ||
+				!ts.isIdentifier(nameNode) ||
+				!/^[A-Za-z_$][\w$]*$/.test(name)
+					? quoteString(name, quote)
+					: name,
+		};
+	}
+
+	// Moving to another object removes the entry and adds it anew
+	const { value } = findStringEntry(root, key);
+	const filePath = root.sourceFile.fileName;
+	return composeChanges(
+		content,
+		(text) => deleteObjectEntry(text, root, key),
+		(text) =>
+			addObjectEntry(
+				text,
+				root.style.json
+					? jsonRoot(text, filePath, root.style)
+					: scriptRoot(text, filePath),
+				newKey,
+				value.text,
+			),
+	);
+}
+
+function deleteObjectEntry(
+	content: string,
+	root: CatalogueRoot,
+	key: string,
+): TextChange {
+	const entry = findObjectEntry(root, key);
+	if (!entry) {
+		throw notFound(key);
+	}
+	// Objects left empty are removed along with the entry, unless they are
+	// declared apart from the property holding them
+	let depth = entry.ancestors.length;
+	let property: ts.ObjectLiteralElementLike = entry.property;
+	while (
+		depth > 0 &&
+		entry.objects[depth].properties.length === 1 &&
+		isInlineValue(entry.ancestors[depth - 1], entry.objects[depth], root)
+	) {
+		depth--;
+		property = entry.ancestors[depth];
+	}
+	return removeProperty(
+		content,
+		root.sourceFile,
+		entry.objects[depth],
+		property,
+	);
+}
+
+/** Whether a property holds an object literal written in place */
+function isInlineValue(
+	property: ts.PropertyAssignment | ts.ShorthandPropertyAssignment,
+	object: ts.ObjectLiteralExpression,
+	{ sourceFile }: CatalogueRoot,
+): boolean {
+	return (
+		ts.isPropertyAssignment(property) &&
+		unwrapObject(property.initializer, sourceFile) === object
+	);
+}
+
+/** Removes a property with its comma, leading comments and line */
+function removeProperty(
+	content: string,
+	sourceFile: ts.SourceFile,
+	object: ts.ObjectLiteralExpression,
+	property: ts.ObjectLiteralElementLike,
+): TextChange {
+	const properties = object.properties;
+	const index = properties.indexOf(property);
+	if (properties.length === 1) {
+		const start = object.getStart(sourceFile) + 1;
+		return { offset: start, length: object.getEnd() - 1 - start, text: "" };
+	}
+	if (index === properties.length - 1 && !properties.hasTrailingComma) {
+		// The comma before the last property goes instead
+		const start = properties[index - 1].getEnd();
+		return { offset: start, length: property.getEnd() - start, text: "" };
+	}
+
+	// From after the previous comma (or brace) to after this property's comma
+	let end = content.indexOf(",", property.getEnd()) + 1;
+	const comment = /^[ \t]*\/\/[^\n]*/.exec(content.slice(end));
+	if (comment) {
+		end += comment[0].length;
+	}
+	return { offset: property.pos, length: end - property.pos, text: "" };
+}
+
+/**
+ * Walks down the objects matching the key's segments (nested or flat dotted
+ * names) and inserts what is left of the key into the deepest one.
+ */
+function addObjectEntry(
+	content: string,
+	{ sourceFile, object, style }: CatalogueRoot,
+	key: string,
+	value: string,
+): TextChange {
+	const segments = key.split(".");
+	let target = object;
+	let index = 0;
+
+	descend: while (index < segments.length) {
+		for (const holder of [target, ...spreadObjects(target, sourceFile)]) {
+			for (let end = segments.length; end > index; end--) {
+				const name = segments.slice(index, end).join(".");
+				const member = findMember(holder, name);
+				if (!member) {
+					continue;
+				}
+				const value = resolveObject(memberValue(member), sourceFile);
+				if (end === segments.length) {
+					throw alreadyExists(key);
+				}
+				if (ts.isIdentifier(value)) {
+					throw definedElsewhere(segments.slice(0, end).join("."));
+				}
+				if (!ts.isObjectLiteralExpression(value)) {
+					throw new Error(
+						`"${segments.slice(0, end).join(".")}" is not an object`,
+					);
+				}
+				target = value;
+				index = end;
+				continue descend;
+			}
+		}
+		break;
+	}
+
+	const remaining = segments.slice(index);
+	// Catalogues that already use flat dotted keys at this level stay flat
+	const flat =
+		!style.nested ||
+		target.properties.some(
+			(property) =>
+				property.name && propertyNameText(property.name)?.includes("."),
+		);
+	const indentUnit = detectIndentUnit(content);
+	const quote = style.json ? '"' : detectQuote(sourceFile);
+
+	const formatName = (name: string) =>
+		style.json || !/^[A-Za-z_$][\w$]*$/.test(name)
+			? quoteString(name, quote)
+			: name;
+	const formatEntry = (names: string[], indent: string): string => {
+		if (flat || names.length === 1) {
+			return `${formatName(names.join("."))}: ${quoteString(value, quote)}`;
+		}
+		const inner = indent + indentUnit;
+		return `${formatName(names[0])}: {\n${inner}${formatEntry(names.slice(1), inner)}\n${indent}}`;
+	};
+
+	const properties = target.properties;
+	if (properties.length === 0) {
+		const indent = lineIndent(content, target.getStart(sourceFile));
+		const inner = indent + indentUnit;
+		return {
+			offset: target.getStart(sourceFile) + 1,
+			length: target.getEnd() - target.getStart(sourceFile) - 2,
+			text: `\n${inner}${formatEntry(remaining, inner)}\n${indent}`,
+		};
+	}
+
+	const last = properties[properties.length - 1];
+	const singleLine =
+		sourceFile.getLineAndCharacterOfPosition(properties[0].getStart(sourceFile))
+			.line ===
+		sourceFile.getLineAndCharacterOfPosition(target.getStart(sourceFile)).line;
+	const indent = singleLine
+		? ""
+		: lineIndent(content, properties[0].getStart(sourceFile));
+	const separator = singleLine ? " " : `\n${indent}`;
+	const entry = formatEntry(remaining, indent);
+
+	if (properties.hasTrailingComma) {
+		// Insert after the existing trailing comma and keep one after the entry
+		const comma = content.indexOf(",", last.getEnd());
+		return {
+			offset: singleLine ? comma + 1 : trailingCommentsEnd(content, comma + 1),
+			length: 0,
+			text: `${separator}${entry},`,
+		};
+	}
+	if (singleLine) {
+		return { offset: last.getEnd(), length: 0, text: `,${separator}${entry}` };
+	}
+	// A comment after the last property stays on its line
+	const end = trailingCommentsEnd(content, last.getEnd());
+	return {
+		offset: last.getEnd(),
+		length: end - last.getEnd(),
+		text: `,${content.slice(last.getEnd(), end)}${separator}${entry}`,
+	};
+}
+
+/** Offset after the comments following `offset` on the same line */
+function trailingCommentsEnd(content: string, offset: number): number {
+	const comments = ts.getTrailingCommentRanges(content, offset);
+	return comments?.length ? comments[comments.length - 1].end : offset;
+}
+
+function quoteString(text: string, quote: string): string {
+	if (quote === "`") {
+		return `\`${text.replace(/\\|`|\$\{/g, (match) => `\\${match}`)}\``;
+	}
+	const json = JSON.stringify(text);
+	if (quote === '"') {
+		return json;
+	}
+	const body = json.slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'");
+	return `'${body}'`;
+}
+
+/** Quote used by the existing string values of a catalogue */
+function detectQuote(sourceFile: ts.SourceFile): string {
+	let quote: string | undefined;
+	const visit = (child: ts.Node) => {
+		if (quote) {
+			return;
+		}
+		if (ts.isStringLiteral(child) && ts.isPropertyAssignment(child.parent)) {
+			quote = child.getText(sourceFile).startsWith("'") ? "'" : '"';
+			return;
+		}
+		ts.forEachChild(child, visit);
+	};
+	visit(sourceFile);
+	return quote ?? '"';
+}
+
+function detectIndentUnit(content: string): string {
+	const match = /^([ \t]+)\S/m.exec(content);
+	if (!match) {
+		return "\t";
+	}
+	return match[1].startsWith("\t") ? "\t" : match[1];
+}
+
+function lineIndent(content: string, offset: number): string {
+	const lineStart = content.lastIndexOf("\n", offset - 1) + 1;
+	return /^[ \t]*/.exec(content.slice(lineStart))?.[0] ?? "";
+}
+
+function parseYaml(content: string): Document.Parsed {
+	const document = parseDocument(content);
+	if (document.errors.length > 0) {
+		throw document.errors[0];
+	}
+	return document;
+}
+
+/** Path of a key through the mappings, nested or with flat dotted names */
+function yamlPath(document: Document, key: string): string[] | undefined {
+	const segments = key.split(".");
+	const visit = (node: unknown, index: number): string[] | undefined => {
+		if (!isMap(node)) {
+			return undefined;
+		}
+		for (let end = segments.length; end > index; end--) {
+			const name = segments.slice(index, end).join(".");
+			const pair = node.items.find(
+				(item) => isScalar(item.key) && String(item.key.value) === name,
+			);
+			if (!pair) {
+				continue;
+			}
+			if (end === segments.length) {
+				return [name];
+			}
+			const rest = visit(pair.value, end);
+			if (rest) {
+				return [name, ...rest];
+			}
+		}
+		return undefined;
+	};
+	return visit(document.contents, 0);
+}
+
+function requireYamlPath(document: Document, key: string): string[] {
+	const found = yamlPath(document, key);
+	if (!found) {
+		throw notFound(key);
+	}
+	return found;
+}
+
+function addYamlEntry(content: string, key: string, value: string): TextChange {
+	const document = parseYaml(content);
+	if (yamlPath(document, key)) {
+		throw alreadyExists(key);
+	}
+	const segments = key.split(".");
+	const eol = lineBreak(content);
+	if (document.contents === null) {
+		const lines = yamlEntryLines(segments, value, "", yamlIndentUnit(content));
+		return appendChange(content, `${lines.join(eol)}${eol}`);
+	}
+	if (!isMap(document.contents)) {
+		throw new Error("YAML translation file must contain a mapping");
+	}
+
+	// The deepest existing mapping on the key's path receives the entry
+	let map: YAMLMap = document.contents;
+	let depth = 0;
+	for (; depth < segments.length - 1; depth++) {
+		const child = map.get(segments[depth], true);
+		if (child === undefined) {
+			break;
+		}
+		if (!isMap(child)) {
+			throw new Error(
+				`"${segments.slice(0, depth + 1).join(".")}" is not an object`,
+			);
+		}
+		map = child;
+	}
+	if (map.flow || map.items.length === 0) {
+		document.setIn(segments, value);
+		return replaceYamlNode(map);
+	}
+
+	// Inserted after the mapping's last entry, at the indentation of its keys
+	const index = new LineIndex(content);
+	const keyStart = rangeOf(map.items[0].key)[0];
+	const indent = content.slice(
+		index.lineStart(index.lineAt(keyStart)),
+		keyStart,
+	);
+	const last = map.items[map.items.length - 1];
+	const end = rangeOf(last.value ?? last.key)[2];
+	const offset = index.lineStart(index.lineAt(end - 1) + 1);
+	const lines = yamlEntryLines(
+		segments.slice(depth),
+		value,
+		indent,
+		yamlIndentUnit(content),
+	).join(eol);
+	return {
+		offset,
+		length: 0,
+		text:
+			offset === content.length && !content.endsWith("\n")
+				? `${eol}${lines}`
+				: `${lines}${eol}`,
+	};
+}
+
+function updateYamlEntry(
+	content: string,
+	key: string,
+	value: string,
+): TextChange {
+	const document = parseYaml(content);
+	const node = document.getIn(requireYamlPath(document, key), true);
+	if (!isScalar(node)) {
+		throw notFound(key);
+	}
+	// Only the scalar is replaced, in its quoting style, so its comment and
+	// the rest of the file are kept as written
+	const [start, end] = rangeOf(node);
+	const replaced = content.slice(start, end);
+	const text =
+		yamlScalar(value, node.type) + (/\r?\n$/.exec(replaced)?.[0] ?? "");
+	return {
+		offset: start,
+		length: end - start,
+		// An empty value follows the colon directly
+		text: start === end && content[start - 1] === ":" ? ` ${text}` : text,
+	};
+}
+
+function renameYamlEntry(
+	content: string,
+	key: string,
+	newKey: string,
+): TextChange {
+	const document = parseYaml(content);
+	const keyPath = requireYamlPath(document, key);
+	if (yamlPath(document, newKey)) {
+		throw alreadyExists(newKey);
+	}
+
+	const prefix = keyPath.slice(0, -1).join(".");
+	const name = newKey.startsWith(prefix ? `${prefix}.` : "")
+		? newKey.slice(prefix ? prefix.length + 1 : 0)
+		: undefined;
+	const parent = yamlParent(document, keyPath);
+	const pair = parent && findYamlPair(parent, keyPath[keyPath.length - 1]);
+	if (name && !name.includes(".") && pair && isScalar(pair.key)) {
+		const [start, end] = rangeOf(pair.key);
+		return {
+			offset: start,
+			length: end - start,
+			text: yamlScalar(name, pair.key.type),
+		};
+	}
+
+	// Moved to another mapping: deleted, then added where the new key belongs
+	const node = document.getIn(keyPath, true);
+	if (!isScalar(node)) {
+		throw notFound(key);
+	}
+	const value = String(node.value ?? "");
+	return composeChanges(
+		content,
+		(text) => deleteYamlEntry(text, key),
+		(text) => addYamlEntry(text, newKey, value),
+	);
+}
+
+/** Removes the lines of a key, and of the mappings it leaves empty */
+function deleteYamlEntry(content: string, key: string): TextChange {
+	const document = parseYaml(content);
+	let keyPath = requireYamlPath(document, key);
+	while (
+		keyPath.length > 1 &&
+		yamlParent(document, keyPath)?.items.length === 1
+	) {
+		keyPath = keyPath.slice(0, -1);
+	}
+	const parent = yamlParent(document, keyPath);
+	const pair = parent && findYamlPair(parent, keyPath[keyPath.length - 1]);
+	if (!parent || !pair) {
+		throw notFound(key);
+	}
+	if (parent.flow) {
+		parent.items.splice(parent.items.indexOf(pair), 1);
+		return replaceYamlNode(parent);
+	}
+	const index = new LineIndex(content);
+	const start = rangeOf(pair.key)[0];
+	const end = rangeOf(pair.value ?? pair.key)[2];
+	return removeLines(
+		content,
+		index.lineAt(start),
+		index.lineAt(Math.max(start, end - 1)),
+	);
+}
+
+/** Mapping holding the last key of a path */
+function yamlParent(
+	document: Document,
+	keyPath: string[],
+): YAMLMap | undefined {
+	const parent =
+		keyPath.length > 1
+			? document.getIn(keyPath.slice(0, -1), true)
+			: document.contents;
+	return isMap(parent) ? parent : undefined;
+}
+
+function findYamlPair(map: YAMLMap, name: string): Pair | undefined {
+	return map.items.find(
+		(item) => isScalar(item.key) && String(item.key.value) === name,
+	);
+}
+
+/** Source range of a parsed node: start, end of value, end of node */
+function rangeOf(node: unknown): [number, number, number] {
+	const range = isNode(node) ? node.range : undefined;
+	if (!range) {
+		throw new Error("YAML node without a source position");
+	}
+	return range;
+}
+
+/**
+ * Rewrites a flow mapping such as `{ a: 1 }` after editing it, the only text
+ * written from the document rather than spliced in
+ */
+function replaceYamlNode(node: YAMLMap): TextChange {
+	const [start, end] = rangeOf(node);
+	return {
+		offset: start,
+		length: end - start,
+		text: stringify(node, { lineWidth: 0 }).trimEnd(),
+	};
+}
+
+/**
+ * A scalar as written in YAML, quoted like the scalar it replaces. Text with
+ * line breaks is double-quoted to stay on one line.
+ */
+function yamlScalar(value: string, type?: Scalar.Type): string {
+	const defaultStringType =
+		value.includes("\n") || type === "QUOTE_DOUBLE"
+			? "QUOTE_DOUBLE"
+			: type === "QUOTE_SINGLE"
+				? "QUOTE_SINGLE"
+				: "PLAIN";
+	return stringify(value, {
+		defaultStringType,
+		lineWidth: 0,
+		blockQuote: false,
+	}).trimEnd();
+}
+
+/** Lines of a new entry, with a mapping for each of its parent segments */
+function yamlEntryLines(
+	segments: string[],
+	value: string,
+	indent: string,
+	unit: string,
+): string[] {
+	return segments.map(
+		(segment, depth) =>
+			`${indent}${unit.repeat(depth)}${yamlScalar(segment)}:${
+				depth === segments.length - 1 ? ` ${yamlScalar(value)}` : ""
+			}`,
+	);
+}
+
+/** Indentation of nested YAML mappings; tabs are not allowed */
+function yamlIndentUnit(content: string): string {
+	return /^( +)\S/m.exec(content)?.[1] ?? "  ";
+}
+
+function appendChange(content: string, block: string): TextChange {
+	const text = stripBom(content);
+	const separator = text.length === 0 ? "" : text.endsWith("\n") ? "" : "\n";
+	return { offset: content.length, length: 0, text: `${separator}${block}` };
+}
+
+/** Line break used by a file */
+function lineBreak(content: string): string {
+	return content.includes("\r\n") ? "\r\n" : "\n";
+}
+
+/** Replaces the text of lines `start` to `end`, keeping the final line break */
+function replaceLines(
+	content: string,
+	lines: string[],
+	start: number,
+	end: number,
+	replacement: string[],
+): TextChange {
+	const index = new LineIndex(content);
+	const offset = index.lineStart(start);
+	return {
+		offset,
+		length: index.lineStart(end) + lines[end].length - offset,
+		text: replacement.join(lineBreak(content)),
+	};
+}
+
+/** Removes lines `start` to `end` along with their line breaks */
+function removeLines(content: string, start: number, end: number): TextChange {
+	const index = new LineIndex(content);
+	const offset = index.lineStart(start);
+	return { offset, length: index.lineStart(end + 1) - offset, text: "" };
+}
+
+function poString(text: string): string {
+	return `"${text
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, "\\n")
+		.replace(/\t/g, "\\t")}"`;
+}
+
+/** `msgctxt` and `msgid` lines of a key */
+function poKeyLines(key: string): string[] {
+	const separatorIndex = key.indexOf(GETTEXT_CONTEXT_SEPARATOR);
+	if (separatorIndex === -1) {
+		return [`msgid ${poString(key)}`];
+	}
+	return [
+		`msgctxt ${poString(key.slice(0, separatorIndex))}`,
+		`msgid ${poString(key.slice(separatorIndex + 1))}`,
+	];
+}
+
+function poMessageKey(message: PoMessage): string {
+	return message.msgctxt !== undefined
+		? `${message.msgctxt}${GETTEXT_CONTEXT_SEPARATOR}${message.msgid}`
+		: (message.msgid ?? "");
+}
+
+/**
+ * The message defining a key, and which of its `msgstr` forms the key names:
+ * plural forms other than the first are keyed `msgid_1`, `msgid_2`, …
+ */
+function findPoMessage(
+	lines: string[],
+	key: string,
+): { message: PoMessage; form: number } | undefined {
+	for (const message of parsePo(lines)) {
+		if (!message.msgid) {
+			continue;
+		}
+		const messageKey = poMessageKey(message);
+		if (key === messageKey) {
+			return { message, form: 0 };
+		}
+		const form = key.startsWith(`${messageKey}_`)
+			? Number(key.slice(messageKey.length + 1))
+			: Number.NaN;
+		if (Number.isInteger(form) && form > 0 && form < message.msgstr.length) {
+			return { message, form };
+		}
+	}
+	return undefined;
+}
+
+function requirePoMessage(
+	lines: string[],
+	key: string,
+	wholeMessage: boolean,
+): PoMessage {
+	const found = findPoMessage(lines, key);
+	if (!found) {
+		throw notFound(key);
+	}
+	if (wholeMessage && found.form > 0) {
+		throw new Error(
+			`${key} is a plural form of ${poMessageKey(found.message)}`,
+		);
+	}
+	return found.message;
+}
+
+function addGettextEntry(
+	content: string,
+	key: string,
+	value: string,
+): TextChange {
+	const lines = [...poKeyLines(key), `msgstr ${poString(value)}`];
+	// Messages are separated by a blank line
+	const blank = /\n\s*\n\s*$/.test(content) || !content.trim() ? "" : "\n";
+	return appendChange(content, `${blank}${lines.join("\n")}\n`);
+}
+
+function updateGettextEntry(
+	content: string,
+	key: string,
+	value: string,
+): TextChange {
+	const lines = content.split(/\r?\n/);
+	const found = findPoMessage(lines, key);
+	if (!found || found.message.msgstrLine === undefined) {
+		throw notFound(key);
+	}
+	const { message, form } = found;
+	// `msgstr` lines come last in a message, so they are rewritten as a whole
+	const msgstr = message.msgstr.map((text, index) =>
+		index === form ? value : (text ?? ""),
+	);
+	return replaceLines(
+		content,
+		lines,
+		message.msgstrLine ?? 0,
+		message.end,
+		message.plural
+			? msgstr.map((text, index) => `msgstr[${index}] ${poString(text)}`)
+			: [`msgstr ${poString(msgstr[0])}`],
+	);
+}
+
+function renameGettextEntry(
+	content: string,
+	key: string,
+	newKey: string,
+): TextChange {
+	const lines = content.split(/\r?\n/);
+	const message = requirePoMessage(lines, key, true);
+	if (findPoMessage(lines, newKey)) {
+		throw alreadyExists(newKey);
+	}
+	// Comments before the message and its `msgid_plural` are kept
+	let start = message.start;
+	while (lines[start].trim().startsWith("#")) {
+		start++;
+	}
+	let end = start;
+	while (
+		end < (message.msgstrLine ?? message.end) &&
+		!lines[end].trim().startsWith("msgid_plural")
+	) {
+		end++;
+	}
+	return replaceLines(content, lines, start, end - 1, poKeyLines(newKey));
+}
+
+function deleteGettextEntry(content: string, key: string): TextChange {
+	const lines = content.split(/\r?\n/);
+	const message = requirePoMessage(lines, key, true);
+	// The blank line separating it from its neighbour goes too
+	const last = !lines.slice(message.end + 1).some((line) => line.trim());
+	if (last) {
+		const start =
+			message.start > 0 && !lines[message.start - 1].trim()
+				? message.start - 1
+				: message.start;
+		return removeLines(content, start, message.end);
+	}
+	const end = lines[message.end + 1].trim() ? message.end : message.end + 1;
+	return removeLines(content, message.start, end);
+}
+
+function escapeProperties(text: string): string {
+	return text
+		.replace(/\\/g, "\\\\")
+		.replace(/\n/g, "\\n")
+		.replace(/\t/g, "\\t")
+		.replace(/\r/g, "\\r");
+}
+
+function propertiesKey(key: string): string {
+	return escapeProperties(key).replace(/([ :=#!])/g, "\\$1");
+}
+
+function propertiesValue(value: string): string {
+	return escapeProperties(value).replace(/^ /, "\\ ");
+}
+
+/** A `key=value` entry, spanning lines `line` to `end` */
+interface PropertiesEntry {
+	line: number;
+	end: number;
+	indent: string;
+	/** The key as written, with its escapes */
+	keyText: string;
+	separator: string;
+}
+
+function findPropertiesEntry(
+	lines: string[],
+	key: string,
+): PropertiesEntry | undefined {
+	const logical = logicalLines(lines);
+	for (const [index, { text, line }] of logical.entries()) {
+		const match = /^(\s*)((?:[^\s:=\\]|\\.)*)(\s*[:=]?\s*)/.exec(text);
+		if (
+			!match ||
+			!match[2] ||
+			/^[#!]/.test(match[2]) ||
+			unescapeProperties(match[2]) !== key
+		) {
+			continue;
+		}
+		return {
+			line,
+			end: (logical[index + 1]?.line ?? lines.length) - 1,
+			indent: match[1],
+			keyText: match[2],
+			separator: match[3],
+		};
+	}
+	return undefined;
+}
+
+function requirePropertiesEntry(lines: string[], key: string): PropertiesEntry {
+	const entry = findPropertiesEntry(lines, key);
+	if (!entry) {
+		throw notFound(key);
+	}
+	return entry;
+}
+
+function addPropertiesEntry(
+	content: string,
+	key: string,
+	value: string,
+): TextChange {
+	return appendChange(
+		content,
+		`${propertiesKey(key)}=${propertiesValue(value)}\n`,
+	);
+}
+
+function updatePropertiesEntry(
+	content: string,
+	key: string,
+	value: string,
+): TextChange {
+	const lines = content.split(/\r?\n/);
+	const entry = requirePropertiesEntry(lines, key);
+	return replaceLines(content, lines, entry.line, entry.end, [
+		`${entry.indent}${entry.keyText}${entry.separator || "="}${propertiesValue(value)}`,
+	]);
+}
+
+function renamePropertiesEntry(
+	content: string,
+	key: string,
+	newKey: string,
+): TextChange {
+	const lines = content.split(/\r?\n/);
+	const entry = requirePropertiesEntry(lines, key);
+	if (findPropertiesEntry(lines, newKey)) {
+		throw alreadyExists(newKey);
+	}
+	return {
+		offset: new LineIndex(content).lineStart(entry.line) + entry.indent.length,
+		length: entry.keyText.length,
+		text: propertiesKey(newKey),
+	};
+}
+
+function deletePropertiesEntry(content: string, key: string): TextChange {
+	const lines = content.split(/\r?\n/);
+	const entry = requirePropertiesEntry(lines, key);
+	return removeLines(content, entry.line, entry.end);
+}
@@ -0,0 +1,427 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import {
+	type CatalogueGroup,
+	discoverCatalogueGroups,
+	loadCatalogueGroup,
+	resolveLocaleFiles,
+} from "./catalogue";
+import { coverageReport, coverageToCsv, coverageToJson } from "./coverage";
+import { findMissingKeyUsages, findUnusedKeys } from "./keyChecks";
+import { getLogger, Logger, setLogger } from "./logger";
+import { findProjectFiles } from "./projectFiles";
+import {
+	defaultSettingsFile,
+	type ProjectSettings,
+	readProjectSettings,
+} from "./projectSettings";
+import type { SourceLocation } from "./sourceLocation";
+import { createMatcher, DEFAULT_SEARCH_OPTIONS } from "./translationSearch";
+import { compileUsagePatterns } from "./usagePatterns";
+import {
+	dynamicKeyPattern,
+	type KeyUsage,
+	scanDynamicUsages,
+	scanUsages,
+} from "./usageScanner";
+
+const USAGE = `Usage: i18n-search <command> [options]
+
+Commands:
+  find <text>    List keys whose key or value matches the text, with their usages
+  missing        List keys used in code but not defined, keys missing from
+                 locales and placeholder mismatches
+  unused         List keys of the reference catalogues never used in code
+  coverage       Report each locale's coverage of the reference catalogue
+
+Options:
+  --root <dir>          Project directory (default: the current directory)
+  --settings <file>     Settings file, or a .code-workspace file
+                        (default: <root>/.vscode/settings.json)
+  --json                Print JSON instead of text
+  --format <format>     Format of the coverage report: text, json or csv
+  --case-sensitive      find: match case
+  --whole-word          find: match whole words
+  --regex               find: the text is a regular expression
+  --no-fuzzy            find: do not tolerate typos
+  --log-level <level>   error, warn, info or debug (default: warn)
+  -h, --help            Show this help
+
+Exit codes: 0 on success, 1 if find matches nothing or missing finds
+problems, 2 on invalid usage or configuration.
+`;
+
+const EXIT_PROBLEMS = 1;
+const EXIT_ERROR = 2;
+
+/** Logs to stderr, keeping stdout for the command's output */
+class ConsoleLogger extends Logger {
+	protected appendLine(line: string) {
+		process.stderr.write(`${line}\n`);
+	}
+}
+
+/** Catalogues and key usages of a project, configured like the extension */
+interface Project {
+	rootDir: string;
+	settings: ProjectSettings;
+	groups: CatalogueGroup[];
+	usages: KeyUsage[];
+	/** Usages of keys built at runtime, such as `errors.${code}` */
+	dynamicUsages: KeyUsage[];
+}
+
+type Options = ReturnType<typeof parseOptions>["values"];
+
+function parseOptions(args: string[]) {
+	return parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			root: { type: "string" },
+			settings: { type: "string" },
+			json: { type: "boolean" },
+			format: { type: "string" },
+			"case-sensitive": { type: "boolean" },
+			"whole-word": { type: "boolean" },
+			regex: { type: "boolean" },
+			"no-fuzzy": { type: "boolean" },
+			"log-level": { type: "string" },
+			help: { type: "boolean", short: "h" },
+		},
+	});
+}
+
+export async function main(args: string[]): Promise<number> {
+	let parsed: ReturnType<typeof parseOptions>;
+	try {
+		parsed = parseOptions(args);
+	} catch (error) {
+		process.stderr.write(
+			`${error instanceof Error ? error.message : error}\n\n${USAGE}`,
+		);
+		return EXIT_ERROR;
+	}
+	const { values: options, positionals } = parsed;
+	const [command, ...rest] = positionals;
+	if (options.help || !command) {
+		process.stdout.write(USAGE);
+		return options.help ? 0 : EXIT_ERROR;
+	}
+
+	setLogger(new ConsoleLogger()).setLogLevel(options["log-level"] ?? "warn");
+	try {
+		switch (command) {
+			case "find":
+				if (rest.length === 0) {
+					process.stderr.write("find needs the text to search for\n");
+					return EXIT_ERROR;
+				}
+				return find(await loadProject(options), rest.join(" "), options);
+			case "missing":
+				return missing(await loadProject(options), options);
+			case "unused":
+				return unused(await loadProject(options), options);
+			case "coverage":
+				return coverage(await loadProject(options), options);
+			default:
+				process.stderr.write(`Unknown command: ${command}\n\n${USAGE}`);
+				return EXIT_ERROR;
+		}
+	} catch (error) {
+		getLogger().debug("Command failed:", error);
+		process.stderr.write(
+			`i18n-search: ${error instanceof Error ? error.message : error}\n`,
+		);
+		return EXIT_ERROR;
+	}
+}
+
+async function loadProject(options: Options): Promise<Project> {
+	const rootDir = path.resolve(options.root ?? ".");
+	const settings = readProjectSettings(
+		options.settings
+			? path.resolve(options.settings)
+			: defaultSettingsFile(rootDir),
+	);
+
+	let groups: CatalogueGroup[];
+	if (settings.catalogueGlob) {
+		const catalogueFiles = await findProjectFiles(
+			rootDir,
+			settings.catalogueGlob,
+			{ exclude: [...settings.filesExclude, "**/node_modules"] },
+		);
+		groups = await discoverCatalogueGroups(
+			rootDir,
+			catalogueFiles,
+			settings.localeFilepaths,
+			settings.namespaces,
+		);
+		if (groups.length === 0) {
+			throw new Error(
+				`No translation catalogue matches ${settings.catalogueGlob}`,
+			);
+		}
+	} else {
+		groups = [
+			await loadCatalogueGroup(
+				rootDir,
+				resolveLocaleFiles(
+					rootDir,
+					settings.translationFilepath,
+					settings.localeFilepaths,
+				),
+				undefined,
+				(file, error) =>
+					getLogger().error(
+						`Failed to load translations for locale ${file.locale}:`,
+						error,
+					),
+			),
+		];
+	}
+
+	const patterns = compileUsagePatterns(
+		settings.usagePresets,
+		settings.usagePatterns,
+	);
+	const usages: KeyUsage[] = [];
+	const dynamicUsages: KeyUsage[] = [];
+	for (const filePath of await findProjectFiles(
+		rootDir,
+		settings.usageFileGlob,
+		{
+			exclude: [...settings.filesExclude, ...settings.searchExclude],
+			useIgnoreFiles: settings.useIgnoreFiles,
+		},
+	)) {
+		const content = await fs.promises.readFile(filePath, "utf-8");
+		const matchOptions = { namespaces: !!settings.catalogueGlob };
+		usages.push(...scanUsages(content, filePath, patterns, matchOptions));
+		dynamicUsages.push(
+			...scanDynamicUsages(content, filePath, patterns, matchOptions),
+		);
+	}
+
+	return { rootDir, settings, groups, usages, dynamicUsages };
+}
+
+/** Keys whose key or value matches the text, best match first */
+function find(project: Project, text: string, options: Options): number {
+	const matcher = createMatcher(text, {
+		...DEFAULT_SEARCH_OPTIONS,
+		caseSensitive: !!options["case-sensitive"],
+		wholeWord: !!options["whole-word"],
+		regex: !!options.regex,
+		fuzzy: !options["no-fuzzy"],
+	});
+	if (typeof matcher !== "function") {
+		process.stderr.write(`${matcher.error}\n`);
+		return EXIT_ERROR;
+	}
+
+	const best = new Map<
+		string,
+		{ key: string; locale: string; value: string; score: number }
+	>();
+	for (const { catalogues } of project.groups) {
+		for (const catalogue of catalogues) {
+			for (const [key, value] of Object.entries(catalogue.entries)) {
+				const score = Math.max(
+					matcher(key)?.score ?? -1,
+					matcher(value)?.score ?? -1,
+				);
+				if (score >= 0 && score > (best.get(key)?.score ?? -1)) {
+					best.set(key, { key, locale: catalogue.locale, value, score });
+				}
+			}
+		}
+	}
+	const results = [...best.values()]
+		.sort((a, b) => b.score - a.score)
+		.map((result) => ({
+			...result,
+			usages: project.usages
+				.filter((usage) => usage.key === result.key)
+				.map((usage) => location(project, usage)),
+		}));
+
+	if (options.json) {
+		print(JSON.stringify({ results }, null, 2));
+	} else {
+		for (const result of results) {
+			print(`${result.key} (${result.locale}) ${result.value}`);
+			result.usages.forEach((usage) => print(`  ${formatLocation(usage)}`));
+		}
+	}
+	return results.length > 0 ? 0 : EXIT_PROBLEMS;
+}
+
+/**
+ * Keys used in code but missing from the reference catalogues, and keys or
+ * placeholders missing from other locales. Any of them fails the command.
+ */
+function missing(project: Project, options: Options): number {
+	const undefinedKeys = findMissingKeyUsages(
+		referenceEntries(project),
+		project.usages,
+	).map((usage) => ({ key: usage.key, ...location(project, usage) }));
+	const report = coverageReport(
+		project.groups.map((group) => group.catalogues),
+	);
+	const missingTranslations = report.locales.flatMap(({ locale, issues }) =>
+		issues
+			.filter((issue) => issue.kind === "missing")
+			.map(({ key }) => ({ locale, key })),
+	);
+	const placeholderMismatches = report.locales.flatMap(({ locale, issues }) =>
+		issues
+			.filter((issue) => issue.kind === "placeholders")
+			.map(({ key, placeholders }) => ({ locale, key, ...placeholders })),
+	);
+
+	if (options.json) {
+		print(
+			JSON.stringify(
+				{ undefinedKeys, missingTranslations, placeholderMismatches },
+				null,
+				2,
+			),
+		);
+	} else {
+		printSection(
+			"Keys used in code but not defined",
+			undefinedKeys.map((usage) => `${usage.key}  ${formatLocation(usage)}`),
+		);
+		printSection(
+			"Keys missing from locales",
+			missingTranslations.map(({ locale, key }) => `${locale}  ${key}`),
+		);
+		printSection(
+			"Placeholder mismatches",
+			placeholderMismatches.map(
+				({ locale, key, missing = [], extra = [] }) =>
+					`${locale}  ${key}  ${[
+						missing.length > 0 && `missing ${missing.join(", ")}`,
+						extra.length > 0 && `unexpected ${extra.join(", ")}`,
+					]
+						.filter(Boolean)
+						.join("; ")}`,
+			),
+		);
+	}
+
+	const problems =
+		undefinedKeys.length +
+		missingTranslations.length +
+		placeholderMismatches.length;
+	if (!options.json && problems === 0) {
+		print("No missing keys or placeholder mismatches");
+	}
+	return problems > 0 ? EXIT_PROBLEMS : 0;
+}
+
+/** Keys of the reference catalogues that no usage refers to */
+function unused(project: Project, options: Options): number {
+	const usedKeys = new Set(project.usages.map((usage) => usage.key));
+	const dynamicKeys = [
+		...new Set(project.dynamicUsages.map((usage) => usage.key)),
+	].map(dynamicKeyPattern);
+	const unusedKeys = project.groups.flatMap(({ catalogues: [reference] }) =>
+		findUnusedKeys(reference.entries, usedKeys, dynamicKeys).map((key) => {
+			const recorded = reference.locations[key];
+			return {
+				key,
+				...(recorded
+					? location(project, recorded)
+					: { file: path.relative(project.rootDir, reference.filePath) }),
+			};
+		}),
+	);
+
+	if (options.json) {
+		print(JSON.stringify({ unusedKeys }, null, 2));
+	} else {
+		unusedKeys.forEach((entry) =>
+			print(`${entry.key}  ${formatLocation(entry)}`),
+		);
+		if (unusedKeys.length === 0) {
+			print("Every key is used");
+		}
+	}
+	return 0;
+}
+
+/** Coverage of each locale, in the formats the extension exports */
+function coverage(project: Project, options: Options): number {
+	const report = coverageReport(
+		project.groups.map((group) => group.catalogues),
+	);
+	const format = options.format ?? (options.json ? "json" : "text");
+	switch (format) {
+		case "json":
+			process.stdout.write(coverageToJson(report));
+			return 0;
+		case "csv":
+			process.stdout.write(coverageToCsv(report));
+			return 0;
+		case "text":
+			print(`Reference locale: ${report.referenceLocale}`);
+			for (const locale of report.locales) {
+				print(
+					`${locale.locale}  ${locale.percent}%  (${locale.translated}/${locale.total} keys translated, ${locale.issues.length} issue(s))`,
+				);
+			}
+			return 0;
+		default:
+			process.stderr.write(`Unknown format: ${format}\n`);
+			return EXIT_ERROR;
+	}
+}
+
+function referenceEntries(project: Project): Record<string, string> {
+	return Object.assign(
+		{},
+		...project.groups.map((group) => group.catalogues[0].entries),
+	);
+}
+
+interface PrintedLocation {
+	file: string;
+	line?: number;
+	column?: number;
+}
+
+/** A location relative to the project, with 1-based line and column */
+function location(project: Project, source: SourceLocation): PrintedLocation {
+	return {
+		file: path.relative(project.rootDir, source.filePath),
+		line: source.line + 1,
+		column: source.character + 1,
+	};
+}
+
+function formatLocation({ file, line, column }: PrintedLocation): string {
+	return line === undefined ? file : `${file}:${line}:${column}`;
+}
+
+function printSection(title: string, lines: string[]) {
+	if (lines.length === 0) {
+		return;
+	}
+	print(`${title} (${lines.length}):`);
+	lines.forEach((line) => print(`  ${line}`));
+	print("");
+}
+
+function print(line: string) {
+	process.stdout.write(`${line}\n`);
+}
+
+if (require.main === module) {
+	main(process.argv.slice(2)).then((code) => {
+		process.exitCode = code;
+	});
+}
@@ -0,0 +1,26 @@
+import * as vscode from "vscode";
+import {
+	compileUsagePatterns,
+	DEFAULT_USAGE_PRESETS,
+	type UsagePattern,
+} from "./usagePatterns";
+
+/** Usage patterns from the `usagePresets` and `usagePatterns` settings */
+export function getUsagePatterns(): UsagePattern[] {
+	const config = vscode.workspace.getConfiguration("i18nSearch");
+	return compileUsagePatterns(
+		config.get<string[]>("usagePresets", DEFAULT_USAGE_PRESETS),
+		config.get<string[]>("usagePatterns", []),
+	);
+}
+
+/**
+ * Whether keys used in a file are qualified with a namespace, because its
+ * folder discovers package catalogues through `i18nSearch.catalogueGlob`
+ */
+export function usesNamespaces(uri: vscode.Uri): boolean {
+	return !!vscode.workspace
+		.getConfiguration("i18nSearch", uri)
+		.get<string>("catalogueGlob", "")
+		.trim();
+}
@@ -0,0 +1,239 @@
+import type { LocaleCatalogue } from "./catalogue";
+import { splitPlaceholders } from "./placeholders";
+import { pluralBaseKey } from "./plurals";
+
+/** Problems of a locale's entries, compared with the reference catalogue */
+export type CoverageIssueKind =
+	| "missing"
+	| "extra"
+	| "empty"
+	| "untranslated"
+	| "placeholders";
+
+export interface CoverageIssue {
+	kind: CoverageIssueKind;
+	key: string;
+	/** Value in the compared locale, unless the key is missing */
+	value?: string;
+	/** Value in the reference locale, unless the key is extra */
+	referenceValue?: string;
+	/** Placeholders of the reference value missing from the value, and added */
+	placeholders?: { missing: string[]; extra: string[] };
+}
+
+export interface LocaleCoverage {
+	locale: string;
+	filePaths: string[];
+	/** Reference keys the locale should define */
+	total: number;
+	/** Reference keys with a value of their own, neither empty nor copied */
+	translated: number;
+	percent: number;
+	issues: CoverageIssue[];
+}
+
+export interface CoverageReport {
+	referenceLocale: string;
+	locales: LocaleCoverage[];
+}
+
+/**
+ * Compares every locale with its reference catalogue. Each group lists a
+ * reference catalogue first, followed by its other locales, as in monorepo
+ * packages; a locale missing from a group misses all of its keys.
+ */
+export function coverageReport(groups: LocaleCatalogue[][]): CoverageReport {
+	const referenceLocale = groups[0]?.[0]?.locale ?? "";
+	const locales = new Set(
+		groups.flatMap((catalogues) =>
+			catalogues.slice(1).map((catalogue) => catalogue.locale),
+		),
+	);
+
+	const coverage = new Map<string, LocaleCoverage>();
+	for (const [reference, ...others] of groups) {
+		for (const locale of locales) {
+			const catalogue = others.find((other) => other.locale === locale);
+			const result = compareEntries(
+				reference.entries,
+				catalogue?.entries ?? {},
+				locale,
+			);
+			const current = coverage.get(locale) ?? {
+				locale,
+				filePaths: [],
+				total: 0,
+				translated: 0,
+				percent: 0,
+				issues: [],
+			};
+			if (catalogue) {
+				current.filePaths.push(catalogue.filePath);
+			}
+			current.total += result.total;
+			current.translated += result.translated;
+			current.issues.push(...result.issues);
+			coverage.set(locale, current);
+		}
+	}
+
+	for (const locale of coverage.values()) {
+		locale.percent = coveragePercent(locale.translated, locale.total);
+	}
+	return { referenceLocale, locales: [...coverage.values()] };
+}
+
+function compareEntries(
+	referenceEntries: Record<string, string>,
+	entries: Record<string, string>,
+	locale: string,
+): Pick<LocaleCoverage, "total" | "translated" | "issues"> {
+	const issues: CoverageIssue[] = [];
+	let total = 0;
+	let translated = 0;
+
+	for (const [key, referenceValue] of Object.entries(referenceEntries)) {
+		if (!(key in entries)) {
+			if (requiresPluralForm(key, locale)) {
+				total++;
+				issues.push({ kind: "missing", key, referenceValue });
+			}
+			continue;
+		}
+		total++;
+		const value = entries[key];
+		if (!value.trim()) {
+			issues.push({ kind: "empty", key, value, referenceValue });
+			continue;
+		}
+		if (value === referenceValue && /\p{L}/u.test(value)) {
+			issues.push({ kind: "untranslated", key, value, referenceValue });
+			continue;
+		}
+		translated++;
+		const placeholders = comparePlaceholders(referenceValue, value);
+		if (placeholders) {
+			issues.push({
+				kind: "placeholders",
+				key,
+				value,
+				referenceValue,
+				placeholders,
+			});
+		}
+	}
+
+	// Plural forms of keys the reference pluralizes are expected to differ
+	const pluralBases = new Set(Object.keys(referenceEntries).map(pluralBaseKey));
+	for (const [key, value] of Object.entries(entries)) {
+		const baseKey = pluralBaseKey(key);
+		if (!(key in referenceEntries) && !(baseKey && pluralBases.has(baseKey))) {
+			issues.push({ kind: "extra", key, value });
+		}
+	}
+
+	return { total, translated, issues };
+}
+
+/**
+ * Whether a locale needs a plural form of the reference, e.g. Japanese has no
+ * `_one` form. Keys that are not plural forms are always required.
+ */
+function requiresPluralForm(key: string, locale: string): boolean {
+	const baseKey = pluralBaseKey(key);
+	const suffix = baseKey ? key.slice(baseKey.length + 1) : "";
+	if (!baseKey || suffix === "plural") {
+		return true;
+	}
+	const ordinal = suffix.startsWith("ordinal_");
+	try {
+		return new Intl.PluralRules(locale.replace(/_/g, "-"), {
+			type: ordinal ? "ordinal" : "cardinal",
+		})
+			.resolvedOptions()
+			.pluralCategories.includes(
+				suffix.replace(/^ordinal_/, "") as Intl.LDMLPluralRule,
+			);
+	} catch {
+		// Unknown locale names keep every form of the reference
+		return true;
+	}
+}
+
+/** Placeholders that differ between a reference value and its translation */
+function comparePlaceholders(
+	referenceValue: string,
+	value: string,
+): CoverageIssue["placeholders"] {
+	const expected = placeholderNames(referenceValue);
+	const actual = placeholderNames(value);
+	const missing = expected.filter((name) => !actual.includes(name));
+	const extra = actual.filter((name) => !expected.includes(name));
+	return missing.length > 0 || extra.length > 0
+		? { missing, extra }
+		: undefined;
+}
+
+/**
+ * Names of the placeholders of a value: `name` for `{{name}}`, `{name}` and
+ * `{name, plural, …}`, whose branches are translated, and printf specifiers
+ * as written.
+ */
+function placeholderNames(value: string): string[] {
+	const names = splitPlaceholders(value)
+		.filter((part) => part.placeholder)
+		.map(({ text }) =>
+			text.startsWith("%")
+				? text
+				: text
+						.replace(/^\$?\{+/, "")
+						.replace(/\}+$/, "")
+						.split(",")[0]
+						.trim(),
+		);
+	return [...new Set(names)];
+}
+
+function coveragePercent(translated: number, total: number): number {
+	return total === 0 ? 100 : Math.floor((translated / total) * 1000) / 10;
+}
+
+/** The report as indented JSON */
+export function coverageToJson(report: CoverageReport): string {
+	return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+const CSV_COLUMNS = [
+	"locale",
+	"percent",
+	"issue",
+	"key",
+	"value",
+	"referenceValue",
+	"missingPlaceholders",
+	"extraPlaceholders",
+];
+
+/** One row per issue, with the locale's coverage repeated on each row */
+export function coverageToCsv(report: CoverageReport): string {
+	const rows = [CSV_COLUMNS];
+	for (const locale of report.locales) {
+		for (const issue of locale.issues) {
+			rows.push([
+				locale.locale,
+				String(locale.percent),
+				issue.kind,
+				issue.key,
+				issue.value ?? "",
+				issue.referenceValue ?? "",
+				issue.placeholders?.missing.join(" ") ?? "",
+				issue.placeholders?.extra.join(" ") ?? "",
+			]);
+		}
+	}
+	return rows.map((row) => `${row.map(csvField).join(",")}\r\n`).join("");
+}
+
+function csvField(field: string): string {
+	return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
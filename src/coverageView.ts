@@ -0,0 +1,283 @@
+import * as vscode from "vscode";
+import {
+	type CoverageIssue,
+	type CoverageIssueKind,
+	type CoverageReport,
+	coverageReport,
+	coverageToCsv,
+	coverageToJson,
+	type LocaleCoverage,
+} from "./coverage";
+import { getLogger } from "./logger";
+import type { FolderTranslations, TranslationStore } from "./translationStore";
+
+export const COVERAGE_VIEW_ID = "i18nCoverageView";
+
+const ISSUE_LABELS: Record<CoverageIssueKind, string> = {
+	missing: "Missing keys",
+	empty: "Empty values",
+	untranslated: "Same as reference",
+	placeholders: "Placeholder mismatches",
+	extra: "Extra keys",
+};
+
+type CoverageNode =
+	| { type: "folder"; folder: FolderTranslations; report: CoverageReport }
+	| { type: "locale"; folder: FolderTranslations; coverage: LocaleCoverage }
+	| {
+			type: "issues";
+			folder: FolderTranslations;
+			coverage: LocaleCoverage;
+			kind: CoverageIssueKind;
+			issues: CoverageIssue[];
+	  }
+	| {
+			type: "issue";
+			folder: FolderTranslations;
+			coverage: LocaleCoverage;
+			issue: CoverageIssue;
+	  };
+
+/**
+ * Lists the coverage of each locale compared with the reference catalogue,
+ * down to the keys with issues. Reports are computed when the view asks for
+ * them and dropped whenever the catalogues change.
+ */
+export class CoverageTreeProvider
+	implements vscode.TreeDataProvider<CoverageNode>, vscode.Disposable
+{
+	private reports = new Map<FolderTranslations, CoverageReport>();
+	private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+	private subscription: vscode.Disposable;
+
+	constructor(private store: TranslationStore) {
+		this.subscription = store.onDidChange(() => this.refresh());
+	}
+
+	refresh() {
+		this.reports.clear();
+		this._onDidChangeTreeData.fire();
+	}
+
+	reportFor(folder: FolderTranslations): CoverageReport {
+		let report = this.reports.get(folder);
+		if (!report) {
+			report = coverageReport(folder.groups.map((group) => group.catalogues));
+			this.reports.set(folder, report);
+		}
+		return report;
+	}
+
+	getChildren(node?: CoverageNode): CoverageNode[] {
+		if (!node) {
+			const folders = this.store.folders;
+			return folders.length === 1
+				? this.localeNodes(folders[0])
+				: folders.map((folder) => ({
+						type: "folder",
+						folder,
+						report: this.reportFor(folder),
+					}));
+		}
+		switch (node.type) {
+			case "folder":
+				return this.localeNodes(node.folder);
+			case "locale":
+				return (Object.keys(ISSUE_LABELS) as CoverageIssueKind[])
+					.map((kind) => ({
+						type: "issues" as const,
+						folder: node.folder,
+						coverage: node.coverage,
+						kind,
+						issues: node.coverage.issues.filter((issue) => issue.kind === kind),
+					}))
+					.filter((issues) => issues.issues.length > 0);
+			case "issues":
+				return node.issues.map((issue) => ({
+					type: "issue",
+					folder: node.folder,
+					coverage: node.coverage,
+					issue,
+				}));
+			case "issue":
+				return [];
+		}
+	}
+
+	private localeNodes(folder: FolderTranslations): CoverageNode[] {
+		return this.reportFor(folder).locales.map((coverage) => ({
+			type: "locale",
+			folder,
+			coverage,
+		}));
+	}
+
+	getTreeItem(node: CoverageNode): vscode.TreeItem {
+		switch (node.type) {
+			case "folder": {
+				const item = new vscode.TreeItem(
+					node.folder.folder.name,
+					vscode.TreeItemCollapsibleState.Expanded,
+				);
+				item.description = `reference: ${node.report.referenceLocale}`;
+				item.iconPath = vscode.ThemeIcon.Folder;
+				return item;
+			}
+			case "locale": {
+				const { coverage } = node;
+				const item = new vscode.TreeItem(
+					coverage.locale,
+					coverage.issues.length > 0
+						? vscode.TreeItemCollapsibleState.Collapsed
+						: vscode.TreeItemCollapsibleState.None,
+				);
+				item.description = `${coverage.percent}% · ${coverage.issues.length} issue(s)`;
+				item.tooltip = `${coverage.translated} of ${coverage.total} keys translated\n${coverage.filePaths
+					.map((filePath) => vscode.workspace.asRelativePath(filePath))
+					.join("\n")}`;
+				item.iconPath = new vscode.ThemeIcon(
+					coverage.percent === 100 ? "pass" : "globe",
+				);
+				return item;
+			}
+			case "issues": {
+				const item = new vscode.TreeItem(
+					ISSUE_LABELS[node.kind],
+					vscode.TreeItemCollapsibleState.Collapsed,
+				);
+				item.description = String(node.issues.length);
+				return item;
+			}
+			case "issue":
+				return this.issueItem(node.folder, node.coverage, node.issue);
+		}
+	}
+
+	private issueItem(
+		folder: FolderTranslations,
+		coverage: LocaleCoverage,
+		issue: CoverageIssue,
+	): vscode.TreeItem {
+		const item = new vscode.TreeItem(issue.key);
+		item.description =
+			issue.kind === "placeholders"
+				? describePlaceholders(issue)
+				: (issue.value ?? issue.referenceValue);
+		item.tooltip = [
+			issue.referenceValue !== undefined &&
+				`Reference: ${issue.referenceValue}`,
+			issue.value !== undefined && `${coverage.locale}: ${issue.value}`,
+		]
+			.filter(Boolean)
+			.join("\n");
+		// Missing keys are shown in the reference catalogue
+		item.command = {
+			title: "Open Key in Catalogue",
+			command: "i18n-search.openKeyDefinition",
+			arguments: [
+				issue.key,
+				issue.kind === "missing" ? null : coverage.locale,
+				folder.folder.uri.toString(),
+			],
+		};
+		return item;
+	}
+
+	dispose() {
+		this.subscription.dispose();
+		this._onDidChangeTreeData.dispose();
+	}
+}
+
+function describePlaceholders(issue: CoverageIssue): string {
+	const { missing = [], extra = [] } = issue.placeholders ?? {};
+	return [
+		missing.length > 0 && `missing ${missing.join(", ")}`,
+		extra.length > 0 && `unexpected ${extra.join(", ")}`,
+	]
+		.filter(Boolean)
+		.join("; ");
+}
+
+/** Registers the coverage view and its commands */
+export function registerCoverageView(
+	context: vscode.ExtensionContext,
+	store: TranslationStore,
+) {
+	const provider = new CoverageTreeProvider(store);
+	context.subscriptions.push(
+		provider,
+		vscode.window.registerTreeDataProvider(COVERAGE_VIEW_ID, provider),
+		vscode.commands.registerCommand("i18n-search.showCoverage", () =>
+			vscode.commands.executeCommand(`${COVERAGE_VIEW_ID}.focus`),
+		),
+		vscode.commands.registerCommand("i18n-search.refreshCoverage", () =>
+			provider.refresh(),
+		),
+		vscode.commands.registerCommand("i18n-search.exportCoverage", () =>
+			exportCoverage(store, provider),
+		),
+	);
+}
+
+/** Saves the coverage report of a workspace folder as JSON or CSV */
+async function exportCoverage(
+	store: TranslationStore,
+	provider: CoverageTreeProvider,
+) {
+	const folder =
+		store.folders.length > 1
+			? (
+					await vscode.window.showQuickPick(
+						store.folders.map((candidate) => ({
+							label: candidate.folder.name,
+							candidate,
+						})),
+						{ title: "Export Coverage of Workspace Folder" },
+					)
+				)?.candidate
+			: store.folders[0];
+	if (!folder) {
+		return;
+	}
+
+	const format = await vscode.window.showQuickPick(["JSON", "CSV"], {
+		title: "Export Translation Coverage",
+		placeHolder: "Select the format of the report",
+	});
+	if (!format) {
+		return;
+	}
+	const extension = format.toLowerCase();
+	const uri = await vscode.window.showSaveDialog({
+		defaultUri: vscode.Uri.joinPath(
+			folder.folder.uri,
+			`translation-coverage.${extension}`,
+		),
+		filters: { [format]: [extension] },
+	});
+	if (!uri) {
+		return;
+	}
+
+	const report = provider.reportFor(folder);
+	const content =
+		format === "CSV" ? coverageToCsv(report) : coverageToJson(report);
+	try {
+		await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf-8"));
+	} catch (error) {
+		getLogger().error(`Failed to export coverage to ${uri.fsPath}:`, error);
+		vscode.window.showErrorMessage(
+			`Failed to export coverage: ${error instanceof Error ? error.message : error}`,
+		);
+		return;
+	}
+	const action = await vscode.window.showInformationMessage(
+		`Translation coverage exported to ${vscode.workspace.asRelativePath(uri)}`,
+		"Open",
+	);
+	if (action) {
+		await vscode.window.showTextDocument(uri);
+	}
+}
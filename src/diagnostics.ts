@@ -0,0 +1,254 @@
+import * as vscode from "vscode";
+import type { LocaleCatalogue } from "./catalogue";
+import { findMissingKeyUsages, findUnusedKeys } from "./keyChecks";
+import { toLocation } from "./keyDefinitions";
+import { getLogger } from "./logger";
+import type { SourceLocation } from "./sourceLocation";
+import type { FolderTranslations, TranslationStore } from "./translationStore";
+import type { UsageIndex } from "./usageIndex";
+import { dynamicKeyPattern, type KeyUsage } from "./usageScanner";
+
+export const DIAGNOSTIC_SOURCE = "i18n-search";
+
+/** Checks reported in the Problems panel, used as diagnostic codes */
+export type DiagnosticCheck = "missingKey" | "unusedKey" | "duplicateValue";
+
+type Report = (location: SourceLocation, diagnostic: vscode.Diagnostic) => void;
+
+type SeveritySetting = "error" | "warning" | "information" | "hint" | "off";
+
+const DEFAULT_SEVERITIES: Record<DiagnosticCheck, SeveritySetting> = {
+	missingKey: "error",
+	unusedKey: "warning",
+	duplicateValue: "information",
+};
+
+const SEVERITIES: Record<
+	Exclude<SeveritySetting, "off">,
+	vscode.DiagnosticSeverity
+> = {
+	error: vscode.DiagnosticSeverity.Error,
+	warning: vscode.DiagnosticSeverity.Warning,
+	information: vscode.DiagnosticSeverity.Information,
+	hint: vscode.DiagnosticSeverity.Hint,
+};
+
+/**
+ * Reports key usages missing from the reference catalogue, catalogue entries
+ * never used in code and values defined under several keys. Diagnostics are
+ * refreshed whenever the catalogues or the usage index change.
+ */
+export class TranslationDiagnostics implements vscode.Disposable {
+	private collection =
+		vscode.languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE);
+	private disposables: vscode.Disposable[] = [];
+	private pending: NodeJS.Timeout | undefined;
+
+	constructor(
+		private store: TranslationStore,
+		private usageIndex: UsageIndex,
+	) {
+		this.disposables.push(
+			this.collection,
+			store.onDidChange(() => this.schedule()),
+			usageIndex.onDidChange(() => this.schedule()),
+			vscode.workspace.onDidChangeConfiguration((event) => {
+				if (event.affectsConfiguration("i18nSearch.diagnostics")) {
+					this.schedule();
+				}
+			}),
+		);
+		this.schedule();
+	}
+
+	/** Refreshes once a burst of changes has settled */
+	private schedule() {
+		clearTimeout(this.pending);
+		this.pending = setTimeout(() => {
+			this.pending = undefined;
+			this.refresh().catch((error) =>
+				getLogger().error("Failed to update diagnostics:", error),
+			);
+		}, 200);
+	}
+
+	async refresh() {
+		const diagnostics = new Map<string, vscode.Diagnostic[]>();
+		const add: Report = (location, diagnostic) => {
+			const list = diagnostics.get(location.filePath) ?? [];
+			list.push(diagnostic);
+			diagnostics.set(location.filePath, list);
+		};
+
+		// Each folder's usages are checked against that folder's catalogues
+		const usagesByFile = await this.usageIndex.getUsagesByFile();
+		for (const folder of this.store.folders) {
+			const folderUsages = new Map(
+				[...usagesByFile].filter(
+					([filePath]) =>
+						this.store.forUri(vscode.Uri.file(filePath)) === folder,
+				),
+			);
+			this.checkMissingKeys(folder, folderUsages, add);
+			await this.checkUnusedKeys(folder, folderUsages, add);
+			this.checkDuplicateValues(folder, add);
+		}
+
+		this.collection.clear();
+		for (const [filePath, list] of diagnostics) {
+			this.collection.set(vscode.Uri.file(filePath), list);
+		}
+	}
+
+	private checkMissingKeys(
+		folder: FolderTranslations,
+		usagesByFile: ReadonlyMap<string, KeyUsage[]>,
+		add: Report,
+	) {
+		const severity = getSeverity("missingKey", folder);
+		if (severity === undefined) {
+			return;
+		}
+		const entries = folder.referenceEntries;
+		for (const usages of usagesByFile.values()) {
+			for (const usage of findMissingKeyUsages(entries, usages)) {
+				add(
+					usage,
+					createDiagnostic(
+						usage,
+						`Translation key "${usage.key}" does not exist in the catalogue`,
+						severity,
+						"missingKey",
+					),
+				);
+			}
+		}
+	}
+
+	/** Reported on the reference catalogues, which define the keys in use */
+	private async checkUnusedKeys(
+		folder: FolderTranslations,
+		usagesByFile: ReadonlyMap<string, KeyUsage[]>,
+		add: Report,
+	) {
+		const severity = getSeverity("unusedKey", folder);
+		if (severity === undefined) {
+			return;
+		}
+		const usedKeys = new Set<string>();
+		for (const usages of usagesByFile.values()) {
+			usages.forEach((usage) => usedKeys.add(usage.key));
+		}
+		// Each template is compiled once, not once per key
+		const templates = new Set(
+			(await this.usageIndex.findDynamicUsages(folder)).map(
+				(usage) => usage.key,
+			),
+		);
+		const dynamicKeys = [...templates].map(dynamicKeyPattern);
+		for (const catalogue of folder.references) {
+			for (const key of findUnusedKeys(
+				catalogue.entries,
+				usedKeys,
+				dynamicKeys,
+			)) {
+				const location = catalogueLocation(catalogue.locations[key], catalogue);
+				add(
+					location,
+					createDiagnostic(
+						location,
+						`Translation key "${key}" is never used`,
+						severity,
+						"unusedKey",
+					),
+				);
+			}
+		}
+	}
+
+	private checkDuplicateValues(folder: FolderTranslations, add: Report) {
+		const severity = getSeverity("duplicateValue", folder);
+		if (severity === undefined) {
+			return;
+		}
+		for (const catalogue of folder.locales) {
+			for (const [value, keys] of Object.entries(catalogue.map)) {
+				if (keys.length < 2 || !value.trim()) {
+					continue;
+				}
+				for (const key of keys) {
+					const location = catalogueLocation(
+						catalogue.locations[key],
+						catalogue,
+					);
+					const diagnostic = createDiagnostic(
+						location,
+						`Value "${value}" is also defined under ${keys
+							.filter((other) => other !== key)
+							.map((other) => `"${other}"`)
+							.join(", ")}`,
+						severity,
+						"duplicateValue",
+					);
+					diagnostic.relatedInformation = keys
+						.filter((other) => other !== key && catalogue.locations[other])
+						.map(
+							(other) =>
+								new vscode.DiagnosticRelatedInformation(
+									toLocation(catalogue.locations[other]),
+									`Also defined as "${other}"`,
+								),
+						);
+					add(location, diagnostic);
+				}
+			}
+		}
+	}
+
+	dispose() {
+		clearTimeout(this.pending);
+		this.disposables.forEach((disposable) => disposable.dispose());
+	}
+}
+
+function getSeverity(
+	check: DiagnosticCheck,
+	folder: FolderTranslations,
+): vscode.DiagnosticSeverity | undefined {
+	const setting = vscode.workspace
+		.getConfiguration("i18nSearch.diagnostics", folder.folder.uri)
+		.get<SeveritySetting>(check, DEFAULT_SEVERITIES[check]);
+	return setting === "off" ? undefined : SEVERITIES[setting];
+}
+
+/** Keys without a recorded position are reported at the top of their file */
+function catalogueLocation(
+	location: SourceLocation | undefined,
+	catalogue: LocaleCatalogue,
+): SourceLocation {
+	return (
+		location ?? {
+			filePath: catalogue.filePath,
+			line: 0,
+			character: 0,
+			length: 0,
+			lineText: "",
+		}
+	);
+}
+
+function createDiagnostic(
+	location: SourceLocation,
+	message: string,
+	severity: vscode.DiagnosticSeverity,
+	check: DiagnosticCheck,
+): vscode.Diagnostic {
+	const diagnostic = new vscode.Diagnostic(
+		toLocation(location).range,
+		message,
+		severity,
+	);
+	diagnostic.source = DIAGNOSTIC_SOURCE;
+	diagnostic.code = check;
+	return diagnostic;
+}
@@ -0,0 +1,373 @@
+import * as ts from "typescript";
+import * as vscode from "vscode";
+import { catalogueKey, type LocaleCatalogue } from "./catalogue";
+import { addEntryChange } from "./catalogueWriter";
+import { getKeyReferences } from "./keyReferences";
+import { getLogger } from "./logger";
+import { qualifyKey } from "./namespaces";
+import type { TranslationStore } from "./translationStore";
+import { namespaceAt } from "./usagePatterns";
+
+const DEFAULT_CALL_TEMPLATE = 't("{key}")';
+
+/** Where a hard-coded string sits, which decides how a key call replaces it */
+type StringKind = "string" | "jsxText" | "jsxAttribute" | "selection";
+
+export interface HardcodedString {
+	value: string;
+	kind: StringKind;
+	/** Range replaced by the key call, including any quotes */
+	range: vscode.Range;
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+	typescript: ts.ScriptKind.TS,
+	typescriptreact: ts.ScriptKind.TSX,
+	javascript: ts.ScriptKind.JS,
+	javascriptreact: ts.ScriptKind.JSX,
+};
+
+/**
+ * Finds the string literal or JSX text at a range. In other languages, or
+ * outside of strings, a non-empty selection is taken as the text itself.
+ */
+export function findHardcodedString(
+	document: vscode.TextDocument,
+	range: vscode.Range,
+): HardcodedString | undefined {
+	const scriptKind = SCRIPT_KINDS[document.languageId];
+	const found =
+		scriptKind !== undefined
+			? findStringNode(document, range, scriptKind)
+			: undefined;
+	if (found || range.isEmpty) {
+		return found;
+	}
+
+	const text = document.getText(range);
+	const quoted = /^(["'`])([\s\S]*)\1$/.exec(text);
+	const value = quoted ? quoted[2] : text.trim();
+	return value
+		? { value, kind: quoted ? "string" : "selection", range }
+		: undefined;
+}
+
+function findStringNode(
+	document: vscode.TextDocument,
+	range: vscode.Range,
+	scriptKind: ts.ScriptKind,
+): HardcodedString | undefined {
+	const sourceFile = ts.createSourceFile(
+		document.fileName,
+		document.getText(),
+		ts.ScriptTarget.Latest,
+		true,
+		scriptKind,
+	);
+	const start = document.offsetAt(range.start);
+	const end = document.offsetAt(range.end);
+
+	let node: ts.Node | undefined;
+	const visit = (child: ts.Node) => {
+		if (child.getStart(sourceFile) <= start && end <= child.getEnd()) {
+			node = child;
+			ts.forEachChild(child, visit);
+		}
+	};
+	ts.forEachChild(sourceFile, visit);
+	if (!node) {
+		return undefined;
+	}
+
+	if (ts.isJsxText(node)) {
+		const text = node.getText(sourceFile);
+		const value = text.trim();
+		if (!value) {
+			return undefined;
+		}
+		const offset = node.getStart(sourceFile) + text.indexOf(value);
+		return {
+			value,
+			kind: "jsxText",
+			range: new vscode.Range(
+				document.positionAt(offset),
+				document.positionAt(offset + value.length),
+			),
+		};
+	}
+
+	if (
+		(ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) &&
+		node.text.trim() &&
+		!isNonTranslatableString(node)
+	) {
+		const literalRange = new vscode.Range(
+			document.positionAt(node.getStart(sourceFile)),
+			document.positionAt(node.getEnd()),
+		);
+		// Strings that already are translation keys
+		if (
+			getKeyReferences(document).some((reference) =>
+				literalRange.contains(reference.range),
+			)
+		) {
+			return undefined;
+		}
+		return {
+			value: node.text,
+			kind: ts.isJsxAttribute(node.parent) ? "jsxAttribute" : "string",
+			range: literalRange,
+		};
+	}
+
+	return undefined;
+}
+
+/** Module specifiers, property names and type positions */
+function isNonTranslatableString(node: ts.Node): boolean {
+	const parent = node.parent;
+	return (
+		ts.isImportDeclaration(parent) ||
+		ts.isExportDeclaration(parent) ||
+		ts.isExternalModuleReference(parent) ||
+		ts.isLiteralTypeNode(parent) ||
+		(ts.isPropertyAssignment(parent) && parent.name === node) ||
+		(ts.isElementAccessExpression(parent) &&
+			parent.argumentExpression === node) ||
+		(ts.isCallExpression(parent) && parent.expression.getText() === "require")
+	);
+}
+
+/** Code calling a key with `i18nSearch.keyCallTemplate`, e.g. `t("common.hello")` */
+export function formatKeyCall(key: string): string {
+	const template = vscode.workspace
+		.getConfiguration("i18nSearch")
+		.get<string>("keyCallTemplate", DEFAULT_CALL_TEMPLATE);
+	return template.split("{key}").join(key);
+}
+
+/** Code inserted in place of a string, wrapped in braces inside JSX */
+function keyCall(key: string, kind: StringKind): string {
+	const call = formatKeyCall(key);
+	return kind === "jsxText" || kind === "jsxAttribute" ? `{${call}}` : call;
+}
+
+/**
+ * Key as called at `range`: without its namespace where the enclosing
+ * `useTranslation` call already selects it, qualified everywhere else.
+ */
+function keyInScope(
+	document: vscode.TextDocument,
+	range: vscode.Range,
+	key: string,
+	catalogue: LocaleCatalogue | undefined,
+): string {
+	const namespace = catalogue?.namespace;
+	if (
+		namespace &&
+		namespaceAt(document.getText(), document.offsetAt(range.start)) ===
+			namespace
+	) {
+		return catalogueKey(catalogue, key);
+	}
+	return key;
+}
+
+/**
+ * Offers to replace a hard-coded string with the key that already holds its
+ * value, or to extract it to a new key of the reference catalogue.
+ */
+export class ExtractStringCodeActionProvider
+	implements vscode.CodeActionProvider
+{
+	static readonly providedCodeActionKinds = [
+		vscode.CodeActionKind.QuickFix,
+		vscode.CodeActionKind.RefactorExtract,
+	];
+
+	constructor(private store: TranslationStore) {}
+
+	provideCodeActions(
+		document: vscode.TextDocument,
+		range: vscode.Range | vscode.Selection,
+	): vscode.CodeAction[] | undefined {
+		// Strings are replaced with keys of the folder the document belongs to
+		const folder = this.store.forUri(document.uri);
+		if (!folder || this.store.filePaths.includes(document.uri.fsPath)) {
+			return undefined;
+		}
+		const found = findHardcodedString(document, range);
+		if (!found) {
+			return undefined;
+		}
+
+		const actions: vscode.CodeAction[] = [];
+		for (const key of folder.translationMap[found.value] ?? []) {
+			const call = keyCall(
+				keyInScope(document, found.range, key, folder.cataloguesFor(key)[0]),
+				found.kind,
+			);
+			const action = new vscode.CodeAction(
+				`Replace with ${call}`,
+				vscode.CodeActionKind.QuickFix,
+			);
+			action.edit = new vscode.WorkspaceEdit();
+			action.edit.replace(document.uri, found.range, call);
+			action.isPreferred = actions.length === 0;
+			actions.push(action);
+		}
+
+		const extract = new vscode.CodeAction(
+			"Extract to translation key…",
+			vscode.CodeActionKind.RefactorExtract,
+		);
+		extract.command = {
+			title: extract.title,
+			command: "i18n-search.extractToKey",
+			arguments: [document.uri, found],
+		};
+		actions.push(extract);
+		return actions;
+	}
+}
+
+/** Registers the code actions and the command that extracts a string */
+export function registerExtractStringActions(
+	context: vscode.ExtensionContext,
+	store: TranslationStore,
+	selector: vscode.DocumentSelector,
+) {
+	context.subscriptions.push(
+		vscode.languages.registerCodeActionsProvider(
+			selector,
+			new ExtractStringCodeActionProvider(store),
+			{
+				providedCodeActionKinds:
+					ExtractStringCodeActionProvider.providedCodeActionKinds,
+			},
+		),
+		vscode.commands.registerCommand(
+			"i18n-search.extractToKey",
+			async (uri?: vscode.Uri, found?: HardcodedString) => {
+				const editor = vscode.window.activeTextEditor;
+				if (!uri || !found) {
+					if (!editor) {
+						return;
+					}
+					uri = editor.document.uri;
+					found = findHardcodedString(editor.document, editor.selection);
+					if (!found) {
+						vscode.window.showInformationMessage(
+							"Place the cursor in a string or select the text to extract",
+						);
+						return;
+					}
+				}
+				await extractToKey(store, uri, found);
+			},
+		),
+	);
+}
+
+async function extractToKey(
+	store: TranslationStore,
+	uri: vscode.Uri,
+	found: HardcodedString,
+) {
+	// New keys go to the catalogue of the package containing the file
+	const reference = store.forUri(uri)?.groupForFile(uri.fsPath)?.catalogues[0];
+	if (!reference) {
+		vscode.window.showErrorMessage("No translation catalogue is loaded");
+		return;
+	}
+
+	const key = await vscode.window.showInputBox({
+		title: `Extract "${found.value}"`,
+		prompt: `New key in ${vscode.workspace.asRelativePath(reference.filePath)}`,
+		value: suggestKey(found.value, reference.filePath),
+		validateInput: (input) => {
+			if (!input.trim()) {
+				return "Enter a key";
+			}
+			return qualifyKey(reference.namespace, input) in reference.entries
+				? `Translation key already exists: ${input}`
+				: undefined;
+		},
+	});
+	if (!key) {
+		return;
+	}
+
+	const catalogueUri = vscode.Uri.file(reference.filePath);
+	try {
+		const catalogue = await vscode.workspace.openTextDocument(catalogueUri);
+		const wasDirty = catalogue.isDirty;
+		const change = addEntryChange(
+			catalogue.getText(),
+			reference.filePath,
+			key,
+			found.value,
+		);
+
+		// A single edit so that undo reverts both files
+		const edit = new vscode.WorkspaceEdit();
+		edit.replace(
+			catalogueUri,
+			new vscode.Range(
+				catalogue.positionAt(change.offset),
+				catalogue.positionAt(change.offset + change.length),
+			),
+			change.text,
+		);
+		const document = await vscode.workspace.openTextDocument(uri);
+		edit.replace(
+			uri,
+			found.range,
+			keyCall(
+				keyInScope(
+					document,
+					found.range,
+					qualifyKey(reference.namespace, key),
+					reference,
+				),
+				found.kind,
+			),
+		);
+		if (!(await vscode.workspace.applyEdit(edit))) {
+			throw new Error("The edit could not be applied");
+		}
+
+		// Saving reloads the catalogue; unsaved changes of the user are left alone
+		if (!wasDirty) {
+			await catalogue.save();
+		}
+		getLogger().info(`Extracted "${found.value}" to ${key}`);
+	} catch (error) {
+		getLogger().error(`Failed to extract "${found.value}" to ${key}:`, error);
+		vscode.window.showErrorMessage(
+			`Failed to extract to ${key}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+}
+
+/** A camelCase key from the first words of the value, e.g. `helloWorld` */
+function suggestKey(value: string, cataloguePath: string): string {
+	// gettext catalogues are keyed by the source text
+	if (/\.pot?$/i.test(cataloguePath)) {
+		return value;
+	}
+	const words = value
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.match(/[a-z0-9]+/g);
+	if (!words) {
+		return "";
+	}
+	return words
+		.slice(0, 4)
+		.map((word, index) =>
+			index === 0 ? word : word[0].toUpperCase() + word.slice(1),
+		)
+		.join("");
+}
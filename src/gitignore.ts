@@ -0,0 +1,86 @@
+import * as path from "path";
+import { globToRegExp, toPosixPath } from "./glob";
+
+interface IgnoreRule {
+	baseDir: string;
+	pattern: RegExp;
+	negated: boolean;
+	directoryOnly: boolean;
+}
+
+/** Evaluates `.gitignore` rules, including nested ignore files */
+export class IgnoreMatcher {
+	private rules: IgnoreRule[] = [];
+
+	/**
+	 * Adds the rules of an ignore file located in `baseDir`. Files of parent
+	 * directories must be added before those of their subdirectories.
+	 */
+	add(baseDir: string, content: string) {
+		for (const rawLine of content.split(/\r?\n/)) {
+			let line = rawLine.replace(/(?<!\\)\s+$/, "");
+			if (!line || line.startsWith("#")) {
+				continue;
+			}
+
+			const negated = line.startsWith("!");
+			if (negated) {
+				line = line.slice(1);
+			}
+			line = line.replace(/^\\([#!])/, "$1");
+
+			const directoryOnly = line.endsWith("/");
+			if (directoryOnly) {
+				line = line.slice(0, -1);
+			}
+
+			// Patterns without an inner slash match at any depth
+			const anchored = line.includes("/");
+			line = line.replace(/^\//, "");
+			this.rules.push({
+				baseDir: path.resolve(baseDir),
+				pattern: globToRegExp(anchored ? line : `**/${line}`),
+				negated,
+				directoryOnly,
+			});
+		}
+	}
+
+	ignores(absPath: string): boolean {
+		const target = path.resolve(absPath);
+		const relevant = this.rules.filter(
+			(rule) =>
+				target.startsWith(rule.baseDir + path.sep) && target !== rule.baseDir,
+		);
+		if (relevant.length === 0) {
+			return false;
+		}
+
+		const segments = toPosixPath(target).split("/");
+		// Check parent directories first: a file inside an ignored directory
+		// cannot be re-included
+		for (let i = 1; i <= segments.length; i++) {
+			const candidate = segments.slice(0, i).join("/");
+			const isDirectory = i < segments.length;
+			let ignored = false;
+
+			for (const rule of relevant) {
+				const base = toPosixPath(rule.baseDir);
+				if (!candidate.startsWith(`${base}/`)) {
+					continue;
+				}
+				if (rule.directoryOnly && !isDirectory) {
+					continue;
+				}
+				if (rule.pattern.test(candidate.slice(base.length + 1))) {
+					ignored = !rule.negated;
+				}
+			}
+
+			if (ignored) {
+				return true;
+			}
+		}
+		return false;
+	}
+}
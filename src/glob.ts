@@ -0,0 +1,76 @@
+/**
+ * Converts a VS Code style glob (`**`, `*`, `?`, `{a,b}`, `[abc]`) into a
+ * regular expression matching forward-slash separated relative paths.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = "";
+	let braceDepth = 0;
+
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+
+		if (char === "*") {
+			if (glob[i + 1] === "*") {
+				// `**/` matches zero or more directories, a trailing `**` anything
+				if (glob[i + 2] === "/") {
+					source += "(?:.*/)?";
+					i += 2;
+				} else {
+					source += ".*";
+					i += 1;
+				}
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			braceDepth++;
+			source += "(?:";
+		} else if (char === "}" && braceDepth > 0) {
+			braceDepth--;
+			source += ")";
+		} else if (char === "," && braceDepth > 0) {
+			source += "|";
+		} else if (char === "[") {
+			const end = glob.indexOf("]", i + 1);
+			if (end === -1) {
+				source += "\\[";
+			} else {
+				let range = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+				if (range.startsWith("!")) {
+					range = `^${range.slice(1)}`;
+				}
+				source += `[${range}]`;
+				i = end;
+			}
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+/** Normalises an OS path to the forward-slash form globs are matched against */
+export function toPosixPath(filePath: string): string {
+	return filePath.replace(/\\/g, "/");
+}
+
+/**
+ * Whether a relative path, or any of its parent directories, matches one of
+ * the patterns. Excluding a directory excludes everything inside it.
+ */
+export function matchesAnyGlob(
+	relativePath: string,
+	patterns: RegExp[],
+): boolean {
+	const segments = toPosixPath(relativePath).split("/");
+	for (let i = 1; i <= segments.length; i++) {
+		const candidate = segments.slice(0, i).join("/");
+		if (patterns.some((pattern) => pattern.test(candidate))) {
+			return true;
+		}
+	}
+	return false;
+}
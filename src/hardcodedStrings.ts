@@ -0,0 +1,193 @@
+import * as path from "path";
+import * as ts from "typescript";
+import { getLogger } from "./logger";
+import { LineIndex, type SourceLocation } from "./sourceLocation";
+
+/** JSX attributes whose value is shown to users */
+export const DEFAULT_TEXT_ATTRIBUTES = [
+	"title",
+	"placeholder",
+	"aria-label",
+	"alt",
+];
+
+/** Components translating their children, e.g. react-i18next's `<Trans>` */
+const TRANSLATING_COMPONENTS = new Set([
+	"Trans",
+	"Translation",
+	"FormattedMessage",
+]);
+
+/**
+ * `i18n-ignore` ignores strings on its own line and the next one,
+ * `i18n-ignore-file` the whole file
+ */
+const IGNORE_COMMENT = /(?:\/\/|\/\*)\s*i18n-ignore(-file)?(?![\w-])/g;
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+	".ts": ts.ScriptKind.TS,
+	".mts": ts.ScriptKind.TS,
+	".cts": ts.ScriptKind.TS,
+	".tsx": ts.ScriptKind.TSX,
+	// JavaScript files often contain JSX
+	".js": ts.ScriptKind.JSX,
+	".mjs": ts.ScriptKind.JSX,
+	".cjs": ts.ScriptKind.JSX,
+	".jsx": ts.ScriptKind.JSX,
+};
+
+export interface HardcodedStringOptions {
+	/** JSX attributes whose string values are user-facing */
+	attributes: string[];
+	/** Values never reported: exact text, or regular expressions like `/^v\d+/` */
+	allowlist: string[];
+}
+
+/**
+ * User-facing text written in code instead of a translation call, located at
+ * the text of a JSX child or the quoted value of an attribute
+ */
+export interface HardcodedText extends SourceLocation {
+	value: string;
+	/** Attribute holding the text; JSX children have none */
+	attribute?: string;
+}
+
+/** Whether a file is parsed for hard-coded strings */
+export function isScriptFile(filePath: string): boolean {
+	return path.extname(filePath).toLowerCase() in SCRIPT_KINDS;
+}
+
+/**
+ * Finds JSX text and user-facing attribute strings that are not translated.
+ * Text without letters, allowlisted values and ignored lines are skipped.
+ */
+export function scanHardcodedStrings(
+	content: string,
+	filePath: string,
+	options: HardcodedStringOptions,
+): HardcodedText[] {
+	const scriptKind = SCRIPT_KINDS[path.extname(filePath).toLowerCase()];
+	// Only JSX holds the strings looked for
+	if (scriptKind === undefined || !content.includes("<")) {
+		return [];
+	}
+	const lineIndex = new LineIndex(content);
+	const ignoredLines = new Set<number>();
+	for (const match of content.matchAll(IGNORE_COMMENT)) {
+		if (match[1]) {
+			return [];
+		}
+		const line = lineIndex.lineAt(match.index ?? 0);
+		ignoredLines.add(line).add(line + 1);
+	}
+
+	const attributes = new Set(options.attributes);
+	const isAllowed = compileAllowlist(options.allowlist);
+	const sourceFile = ts.createSourceFile(
+		filePath,
+		content,
+		ts.ScriptTarget.Latest,
+		true,
+		scriptKind,
+	);
+	const found: HardcodedText[] = [];
+	const report = (
+		value: string,
+		start: number,
+		end: number,
+		attribute?: string,
+	) => {
+		const location = lineIndex.locate(filePath, start, end - start);
+		if (
+			/\p{L}/u.test(value) &&
+			!isAllowed(value) &&
+			!ignoredLines.has(location.line)
+		) {
+			found.push({ ...location, value, attribute });
+		}
+	};
+
+	const visit = (node: ts.Node) => {
+		if (ts.isJsxText(node)) {
+			const text = node.getText(sourceFile);
+			const trimmed = text.trim();
+			if (trimmed && !isTranslatedByComponent(node, sourceFile)) {
+				const start = node.getStart(sourceFile) + text.indexOf(trimmed);
+				// JSX collapses the whitespace of text spanning several lines
+				report(trimmed.replace(/\s+/g, " "), start, start + trimmed.length);
+			}
+		} else if (ts.isJsxAttribute(node)) {
+			const name = node.name.getText(sourceFile);
+			const literal = node.initializer && stringLiteralOf(node.initializer);
+			if (literal && attributes.has(name)) {
+				report(
+					literal.text,
+					literal.getStart(sourceFile),
+					literal.getEnd(),
+					name,
+				);
+			}
+		} else if (
+			ts.isJsxExpression(node) &&
+			(ts.isJsxElement(node.parent) || ts.isJsxFragment(node.parent))
+		) {
+			// Children such as {"Save"}
+			const literal = stringLiteralOf(node);
+			if (literal && !isTranslatedByComponent(node, sourceFile)) {
+				report(literal.text, literal.getStart(sourceFile), literal.getEnd());
+			}
+		}
+		ts.forEachChild(node, visit);
+	};
+	visit(sourceFile);
+	return found;
+}
+
+/** The string of `"Save"` or `{"Save"}`, but not of `{t("save")}` */
+function stringLiteralOf(
+	node: ts.Node,
+): ts.StringLiteral | ts.NoSubstitutionTemplateLiteral | undefined {
+	const expression = ts.isJsxExpression(node) ? node.expression : node;
+	return expression &&
+		(ts.isStringLiteral(expression) ||
+			ts.isNoSubstitutionTemplateLiteral(expression))
+		? expression
+		: undefined;
+}
+
+function isTranslatedByComponent(
+	node: ts.Node,
+	sourceFile: ts.SourceFile,
+): boolean {
+	for (let parent = node.parent; parent; parent = parent.parent) {
+		if (
+			ts.isJsxElement(parent) &&
+			TRANSLATING_COMPONENTS.has(
+				parent.openingElement.tagName.getText(sourceFile),
+			)
+		) {
+			return true;
+		}
+	}
+	return false;
+}
+
+function compileAllowlist(allowlist: string[]): (value: string) => boolean {
+	const values = new Set<string>();
+	const patterns: RegExp[] = [];
+	for (const entry of allowlist) {
+		const regExp = /^\/(.+)\/([a-z]*)$/.exec(entry);
+		if (!regExp) {
+			values.add(entry);
+			continue;
+		}
+		try {
+			patterns.push(new RegExp(regExp[1], regExp[2]));
+		} catch (error) {
+			getLogger().warn(`Invalid allowlist pattern ${entry}:`, error);
+		}
+	}
+	return (value) =>
+		values.has(value) || patterns.some((pattern) => pattern.test(value));
+}
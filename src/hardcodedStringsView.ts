@@ -0,0 +1,234 @@
+import * as vscode from "vscode";
+import {
+	DEFAULT_TEXT_ATTRIBUTES,
+	type HardcodedStringOptions,
+	type HardcodedText,
+} from "./hardcodedStrings";
+import { getLogger } from "./logger";
+import type { TranslationStore } from "./translationStore";
+import type { UsageIndex } from "./usageIndex";
+
+export const HARDCODED_STRINGS_VIEW_ID = "i18nHardcodedStringsView";
+
+/** Strings whose value a key already holds can be replaced right away */
+type Category = "existingKey" | "untranslated";
+
+const CATEGORY_LABELS: Record<Category, string> = {
+	existingKey: "Matching existing keys",
+	untranslated: "Not in catalogues",
+};
+
+/** A found string with the keys whose reference value it is */
+interface Finding {
+	text: HardcodedText;
+	keys: string[];
+}
+
+type HardcodedStringNode =
+	| { type: "category"; category: Category; findings: Finding[] }
+	| { type: "file"; filePath: string; findings: Finding[] }
+	| { type: "string"; finding: Finding };
+
+/**
+ * Lists the hard-coded strings of the last workspace scan, those matching a
+ * value of the catalogues first. Matches follow the catalogues as they
+ * change; the strings themselves are only found again by a new scan.
+ */
+export class HardcodedStringsTreeProvider
+	implements vscode.TreeDataProvider<HardcodedStringNode>, vscode.Disposable
+{
+	/** Strings of the last scan, or undefined before the first one */
+	private found: HardcodedText[] | undefined;
+	private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+	private subscription: vscode.Disposable;
+
+	constructor(
+		private store: TranslationStore,
+		private usageIndex: UsageIndex,
+	) {
+		this.subscription = store.onDidChange(() =>
+			this._onDidChangeTreeData.fire(),
+		);
+	}
+
+	get scanned(): boolean {
+		return this.found !== undefined;
+	}
+
+	get count(): number {
+		return this.found?.length ?? 0;
+	}
+
+	async scan() {
+		const config = vscode.workspace.getConfiguration(
+			"i18nSearch.hardcodedStrings",
+		);
+		const options: HardcodedStringOptions = {
+			attributes: config.get<string[]>("attributes", DEFAULT_TEXT_ATTRIBUTES),
+			allowlist: config.get<string[]>("allowlist", []),
+		};
+		const started = Date.now();
+		this.found = await this.usageIndex.findHardcodedStrings(
+			options,
+			this.store.filePaths,
+		);
+		getLogger().info(
+			`Found ${this.found.length} hard-coded strings (${Date.now() - started}ms)`,
+		);
+		this._onDidChangeTreeData.fire();
+	}
+
+	getChildren(node?: HardcodedStringNode): HardcodedStringNode[] {
+		if (!node) {
+			const findings = (this.found ?? []).map((text) => this.finding(text));
+			return (Object.keys(CATEGORY_LABELS) as Category[])
+				.map((category) => ({
+					type: "category" as const,
+					category,
+					findings: findings.filter(
+						(finding) =>
+							finding.keys.length > 0 === (category === "existingKey"),
+					),
+				}))
+				.filter((category) => category.findings.length > 0);
+		}
+		switch (node.type) {
+			case "category": {
+				const byFile = new Map<string, Finding[]>();
+				for (const finding of node.findings) {
+					const findings = byFile.get(finding.text.filePath) ?? [];
+					findings.push(finding);
+					byFile.set(finding.text.filePath, findings);
+				}
+				return [...byFile]
+					.sort(([a], [b]) => a.localeCompare(b))
+					.map(([filePath, findings]) => ({
+						type: "file",
+						filePath,
+						findings,
+					}));
+			}
+			case "file":
+				return node.findings.map((finding) => ({ type: "string", finding }));
+			case "string":
+				return [];
+		}
+	}
+
+	/** Keys of the file's folder whose reference value is the string */
+	private finding(text: HardcodedText): Finding {
+		const folder = this.store.forUri(vscode.Uri.file(text.filePath));
+		return { text, keys: folder?.translationMap[text.value] ?? [] };
+	}
+
+	getTreeItem(node: HardcodedStringNode): vscode.TreeItem {
+		switch (node.type) {
+			case "category": {
+				const item = new vscode.TreeItem(
+					CATEGORY_LABELS[node.category],
+					vscode.TreeItemCollapsibleState.Expanded,
+				);
+				item.description = String(node.findings.length);
+				item.iconPath = new vscode.ThemeIcon(
+					node.category === "existingKey" ? "lightbulb" : "warning",
+				);
+				return item;
+			}
+			case "file": {
+				const uri = vscode.Uri.file(node.filePath);
+				const item = new vscode.TreeItem(
+					uri,
+					vscode.TreeItemCollapsibleState.Collapsed,
+				);
+				item.description = `${vscode.workspace.asRelativePath(vscode.Uri.joinPath(uri, ".."))} · ${node.findings.length}`;
+				item.iconPath = vscode.ThemeIcon.File;
+				return item;
+			}
+			case "string":
+				return this.stringItem(node.finding);
+		}
+	}
+
+	private stringItem({ text, keys }: Finding): vscode.TreeItem {
+		const item = new vscode.TreeItem(text.value);
+		item.description = [
+			text.attribute,
+			keys.length > 0 && `→ ${keys.join(", ")}`,
+			`${text.line + 1}:${text.character + 1}`,
+		]
+			.filter(Boolean)
+			.join(" · ");
+		item.tooltip = text.lineText.trim();
+		const start = new vscode.Position(text.line, text.character);
+		item.command = {
+			title: "Open",
+			command: "vscode.open",
+			arguments: [
+				vscode.Uri.file(text.filePath),
+				{
+					selection: new vscode.Range(start, start.translate(0, text.length)),
+				} satisfies vscode.TextDocumentShowOptions,
+			],
+		};
+		return item;
+	}
+
+	dispose() {
+		this.subscription.dispose();
+		this._onDidChangeTreeData.dispose();
+	}
+}
+
+/** Registers the view of hard-coded strings and the command scanning for them */
+export function registerHardcodedStringsView(
+	context: vscode.ExtensionContext,
+	store: TranslationStore,
+	usageIndex: UsageIndex,
+) {
+	const provider = new HardcodedStringsTreeProvider(store, usageIndex);
+	const view = vscode.window.createTreeView(HARDCODED_STRINGS_VIEW_ID, {
+		treeDataProvider: provider,
+	});
+
+	const scan = async () => {
+		try {
+			await vscode.window.withProgress(
+				{
+					location: { viewId: HARDCODED_STRINGS_VIEW_ID },
+					title: "Scanning for hard-coded strings",
+				},
+				() => provider.scan(),
+			);
+			view.message =
+				provider.count === 0 ? "No hard-coded strings found" : undefined;
+		} catch (error) {
+			getLogger().error("Failed to scan for hard-coded strings:", error);
+			vscode.window.showErrorMessage(
+				`Failed to scan for hard-coded strings: ${error instanceof Error ? error.message : error}`,
+			);
+		}
+	};
+
+	context.subscriptions.push(
+		provider,
+		view,
+		vscode.commands.registerCommand(
+			"i18n-search.scanHardcodedStrings",
+			async () => {
+				await vscode.commands.executeCommand(
+					`${HARDCODED_STRINGS_VIEW_ID}.focus`,
+				);
+				await scan();
+			},
+		),
+		vscode.workspace.onDidChangeConfiguration((event) => {
+			if (
+				provider.scanned &&
+				event.affectsConfiguration("i18nSearch.hardcodedStrings")
+			) {
+				scan();
+			}
+		}),
+	);
+}
@@ -0,0 +1,78 @@
+import * as vscode from "vscode";
+import { getKeyAtPosition } from "./keyReferences";
+import { pluralForms } from "./plurals";
+import type { TranslationStore } from "./translationStore";
+
+/** Shows the translations of the key under the cursor */
+export class TranslationHoverProvider implements vscode.HoverProvider {
+	constructor(private store: TranslationStore) {}
+
+	provideHover(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): vscode.Hover | undefined {
+		const reference = getKeyAtPosition(document, position);
+		if (!reference) {
+			return undefined;
+		}
+
+		const folder = this.store.forUri(document.uri);
+		if (!folder) {
+			return undefined;
+		}
+
+		const { key } = reference;
+		const translations = folder.translationsFor(key);
+		const markdown = new vscode.MarkdownString();
+		markdown.supportThemeIcons = true;
+
+		const forms = pluralForms(folder.referenceEntries, key);
+		if (Object.keys(translations).length === 0 && forms.length > 0) {
+			markdown.appendMarkdown("**");
+			markdown.appendText(key);
+			markdown.appendMarkdown("** _plural_\n\n");
+			for (const form of forms) {
+				const formTranslations = folder.translationsFor(form);
+				markdown.appendMarkdown(`\`${form.slice(key.length + 1)}\``);
+				for (const [locale, value] of Object.entries(formTranslations)) {
+					markdown.appendMarkdown(` \`${locale}\` `);
+					markdown.appendText(value);
+				}
+				markdown.appendMarkdown("\n\n");
+			}
+			return new vscode.Hover(markdown, reference.range);
+		}
+
+		if (Object.keys(translations).length === 0) {
+			markdown.appendMarkdown("$(warning) Unknown translation key `");
+			markdown.appendText(key);
+			markdown.appendMarkdown("`");
+			return new vscode.Hover(markdown, reference.range);
+		}
+
+		markdown.appendMarkdown("**");
+		markdown.appendText(key);
+		markdown.appendMarkdown("**\n\n");
+		for (const catalogue of folder.cataloguesFor(key)) {
+			if (catalogue.locale in translations) {
+				markdown.appendMarkdown(`\`${catalogue.locale}\` `);
+				markdown.appendText(translations[catalogue.locale]);
+				markdown.appendMarkdown("\n\n");
+			} else {
+				markdown.appendMarkdown(
+					`\`${catalogue.locale}\` $(warning) _missing_\n\n`,
+				);
+			}
+		}
+
+		const args = encodeURIComponent(
+			JSON.stringify([key, null, folder.folder.uri.toString()]),
+		);
+		markdown.appendMarkdown(
+			`[$(go-to-file) Open in catalogue](command:i18n-search.openKeyDefinition?${args})`,
+		);
+		markdown.isTrusted = { enabledCommands: ["i18n-search.openKeyDefinition"] };
+
+		return new vscode.Hover(markdown, reference.range);
+	}
+}
@@ -0,0 +1,359 @@
+import * as vscode from "vscode";
+import { globToRegExp, matchesAnyGlob } from "./glob";
+import { getLogger } from "./logger";
+import type { TranslationStore } from "./translationStore";
+
+export const I18N_SCHEME = "i18n";
+
+const FILE_EXTENSION = ".ts";
+
+/** Stands for the empty segments of keys such as gettext's `Hello.` */
+const EMPTY_SEGMENT = "%";
+
+/** Virtual document of a key, e.g. `i18n:/common/hello.ts` for `common.hello` */
+export function keyToUri(key: string): vscode.Uri {
+	return vscode.Uri.from({
+		scheme: I18N_SCHEME,
+		path: `/${keyPathSegments(key).join("/")}${FILE_EXTENSION}`,
+	});
+}
+
+export function uriToKey(uri: vscode.Uri): string | null {
+	if (uri.scheme !== I18N_SCHEME || !uri.path.endsWith(FILE_EXTENSION)) {
+		return null;
+	}
+	// remove leading '/' and '.ts'; dotted paths are accepted as well
+	try {
+		return uri.path
+			.slice(1, -FILE_EXTENSION.length)
+			.split("/")
+			.map((segment) =>
+				segment === EMPTY_SEGMENT ? "" : decodeURIComponent(segment),
+			)
+			.join(".");
+	} catch {
+		// Malformed escapes name no key
+		return null;
+	}
+}
+
+/**
+ * Path segments of a key's virtual document. Slashes and `%` are escaped, so
+ * that every key maps to a path of its own and back.
+ */
+function keyPathSegments(key: string): string[] {
+	return key
+		.split(".")
+		.map((segment) =>
+			segment ? segment.replace(/[%/\\]/g, encodeURIComponent) : EMPTY_SEGMENT,
+		);
+}
+
+/**
+ * Exposes every translation key as a read-only virtual file whose folders
+ * follow the key's nesting, e.g. `i18n:/common/hello.ts`. Each file shows the
+ * key's value in every locale.
+ */
+export class I18nFileSystemProvider implements vscode.FileSystemProvider {
+	private _onDidChangeFile = new vscode.EventEmitter<
+		vscode.FileChangeEvent[]
+	>();
+	readonly onDidChangeFile = this._onDidChangeFile.event;
+	private keys = new Set<string>();
+	// Directory path ("" for the root) to its entries
+	private directories = new Map<string, Map<string, vscode.FileType>>();
+	private mtime = Date.now();
+
+	constructor(private store: TranslationStore) {
+		this.updateTranslations();
+	}
+
+	updateTranslations() {
+		this.keys = new Set(
+			this.store.locales.flatMap((catalogue) => Object.keys(catalogue.entries)),
+		);
+		this.directories = new Map([["", new Map()]]);
+		for (const key of this.keys) {
+			const segments = keyPathSegments(key);
+			let directory = "";
+			segments.forEach((segment, index) => {
+				const isFile = index === segments.length - 1;
+				const entries = this.directories.get(directory);
+				entries?.set(
+					isFile ? `${segment}${FILE_EXTENSION}` : segment,
+					isFile ? vscode.FileType.File : vscode.FileType.Directory,
+				);
+				if (!isFile) {
+					directory = directory ? `${directory}/${segment}` : segment;
+					if (!this.directories.has(directory)) {
+						this.directories.set(directory, new Map());
+					}
+				}
+			});
+		}
+
+		this.mtime = Date.now();
+		this._onDidChangeFile.fire([
+			{
+				type: vscode.FileChangeType.Changed,
+				uri: vscode.Uri.from({ scheme: I18N_SCHEME, path: "/" }),
+			},
+		]);
+	}
+
+	watch(): vscode.Disposable {
+		return { dispose: () => {} };
+	}
+
+	stat(uri: vscode.Uri): vscode.FileStat {
+		if (this.directories.has(this.getDirectory(uri))) {
+			return {
+				type: vscode.FileType.Directory,
+				ctime: this.mtime,
+				mtime: this.mtime,
+				size: 0,
+			};
+		}
+		const key = uriToKey(uri);
+		if (key && this.keys.has(key)) {
+			return {
+				type: vscode.FileType.File,
+				ctime: this.mtime,
+				mtime: this.mtime,
+				size: this.getContent(key).length,
+			};
+		}
+		throw vscode.FileSystemError.FileNotFound(uri);
+	}
+
+	readDirectory(uri: vscode.Uri): [string, vscode.FileType][] {
+		const entries = this.directories.get(this.getDirectory(uri));
+		if (!entries) {
+			throw vscode.FileSystemError.FileNotFound(uri);
+		}
+		return [...entries.entries()];
+	}
+
+	createDirectory(): void {
+		throw vscode.FileSystemError.NoPermissions();
+	}
+
+	readFile(uri: vscode.Uri): Uint8Array {
+		const key = uriToKey(uri);
+		if (key && this.keys.has(key)) {
+			return Buffer.from(this.getContent(key), "utf8");
+		}
+		throw vscode.FileSystemError.FileNotFound(uri);
+	}
+
+	writeFile(): void {
+		throw vscode.FileSystemError.NoPermissions();
+	}
+
+	delete(): void {
+		throw vscode.FileSystemError.NoPermissions();
+	}
+
+	rename(): void {
+		throw vscode.FileSystemError.NoPermissions();
+	}
+
+	private getDirectory(uri: vscode.Uri): string {
+		return uri.path.replace(/^\/+|\/+$/g, "");
+	}
+
+	private getContent(key: string): string {
+		return virtualDocumentLines(key, this.store.translationsFor(key))
+			.map((line) => line.text)
+			.join("\n");
+	}
+}
+
+interface VirtualLine {
+	text: string;
+	locale?: string;
+	/** Offset of the opening quote of the value */
+	valueStart?: number;
+	value?: string;
+}
+
+/**
+ * Lines of a key's virtual document: a comment naming the key, then one
+ * constant per locale, e.g. `export const en = "Hello World";`.
+ */
+function virtualDocumentLines(
+	key: string,
+	translations: Record<string, string>,
+): VirtualLine[] {
+	const lines: VirtualLine[] = [{ text: `// t("${key}")` }];
+	for (const [locale, value] of Object.entries(translations)) {
+		const prefix = `export const ${locale.replace(/\W/g, "_")} = `;
+		lines.push({
+			text: `${prefix}${JSON.stringify(value)};`,
+			locale,
+			valueStart: prefix.length,
+			value,
+		});
+	}
+	return lines;
+}
+
+/**
+ * Reports translated values matching a workspace search as hits in the
+ * virtual key documents, so searching "Hello World" lists `t("common.hello")`.
+ */
+class I18nTextSearchProvider implements vscode.TextSearchProvider {
+	constructor(private store: TranslationStore) {}
+
+	provideTextSearchResults(
+		query: vscode.TextSearchQuery,
+		options: vscode.TextSearchOptions,
+		progress: vscode.Progress<vscode.TextSearchResult>,
+		token: vscode.CancellationToken,
+	): vscode.TextSearchComplete {
+		const pattern = queryToRegExp(query);
+		if (!pattern) {
+			return { limitHit: false };
+		}
+
+		const includes = options.includes.map(globToRegExp);
+		const excludes = options.excludes.map(globToRegExp);
+		const keys = new Set(
+			this.store.locales.flatMap((catalogue) => Object.keys(catalogue.entries)),
+		);
+		let count = 0;
+
+		for (const key of keys) {
+			if (token.isCancellationRequested) {
+				break;
+			}
+			const uri = keyToUri(key);
+			const relativePath = uri.path.slice(1);
+			if (
+				(includes.length > 0 && !matchesAnyGlob(relativePath, includes)) ||
+				matchesAnyGlob(relativePath, excludes)
+			) {
+				continue;
+			}
+
+			const lines = virtualDocumentLines(key, this.store.translationsFor(key));
+			for (const [lineNumber, line] of lines.entries()) {
+				if (line.value === undefined || line.valueStart === undefined) {
+					continue;
+				}
+				for (const match of line.value.matchAll(pattern)) {
+					if (!match[0]) {
+						continue;
+					}
+					if (count >= options.maxResults) {
+						return { limitHit: true };
+					}
+					count++;
+					progress.report(
+						toSearchMatch(
+							uri,
+							key,
+							line,
+							lineNumber,
+							match.index ?? 0,
+							match[0],
+						),
+					);
+				}
+			}
+		}
+
+		return { limitHit: false };
+	}
+}
+
+function toSearchMatch(
+	uri: vscode.Uri,
+	key: string,
+	line: VirtualLine,
+	lineNumber: number,
+	index: number,
+	text: string,
+): vscode.TextSearchMatch {
+	const value = line.value ?? "";
+	const valueStart = line.valueStart ?? 0;
+	// Offsets inside the JSON-escaped value on the document line
+	const start = valueStart + JSON.stringify(value.slice(0, index)).length - 1;
+	const end =
+		valueStart + JSON.stringify(value.slice(0, index + text.length)).length - 1;
+
+	// Preview the key next to its value, e.g. `t("common.hello") → Hello World`
+	const previewPrefix = `t("${key}") [${line.locale}] → `;
+	return {
+		uri,
+		ranges: new vscode.Range(lineNumber, start, lineNumber, end),
+		preview: {
+			text: previewPrefix + value.replace(/[\r\n]/g, " "),
+			matches: new vscode.Range(
+				0,
+				previewPrefix.length + index,
+				0,
+				previewPrefix.length + index + text.length,
+			),
+		},
+	};
+}
+
+function queryToRegExp(query: vscode.TextSearchQuery): RegExp | null {
+	let source = query.isRegExp
+		? query.pattern
+		: query.pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	if (query.isWordMatch) {
+		source = `\\b(?:${source})\\b`;
+	}
+	try {
+		return new RegExp(source, query.isCaseSensitive ? "g" : "gi");
+	} catch (error) {
+		getLogger().debug(`Invalid search pattern: ${query.pattern}`, error);
+		return null;
+	}
+}
+
+/**
+ * Registers the text search provider for the `i18n:` scheme. It relies on
+ * the `textSearchProvider` API proposal, so when VS Code does not enable it
+ * for this extension the virtual documents remain browsable but are not
+ * included in workspace searches.
+ */
+export function registerI18nTextSearchProvider(
+	store: TranslationStore,
+): vscode.Disposable | undefined {
+	try {
+		if (typeof vscode.workspace.registerTextSearchProvider !== "function") {
+			throw new Error("registerTextSearchProvider is not available");
+		}
+		const registration = vscode.workspace.registerTextSearchProvider(
+			I18N_SCHEME,
+			new I18nTextSearchProvider(store),
+		);
+		getLogger().info("Registered text search provider for i18n: documents");
+		return registration;
+	} catch (error) {
+		getLogger().info(
+			"Text search provider API unavailable, translations will not appear in workspace search:",
+			error instanceof Error ? error.message : error,
+		);
+		return undefined;
+	}
+}
+
+/** Adds the virtual translations folder to the workspace so it is searched */
+export async function addTranslationsToWorkspace() {
+	const root = vscode.Uri.from({ scheme: I18N_SCHEME, path: "/" });
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	if (folders.some((folder) => folder.uri.scheme === I18N_SCHEME)) {
+		vscode.window.showInformationMessage(
+			"Translations are already part of the workspace",
+		);
+		return;
+	}
+	vscode.workspace.updateWorkspaceFolders(folders.length, 0, {
+		uri: root,
+		name: "Translations",
+	});
+}
@@ -0,0 +1,46 @@
+import { pluralBaseKey } from "./plurals";
+import type { KeyUsage } from "./usageScanner";
+
+/**
+ * Usages of keys the reference entries do not define. A key used for its
+ * plural forms, e.g. `items` for `items_one` and `items_other`, is defined.
+ */
+export function findMissingKeyUsages(
+	referenceEntries: Record<string, string>,
+	usages: Iterable<KeyUsage>,
+): KeyUsage[] {
+	const pluralKeys = new Set(
+		Object.keys(referenceEntries)
+			.map(pluralBaseKey)
+			.filter((key) => key !== undefined),
+	);
+	const missing: KeyUsage[] = [];
+	for (const usage of usages) {
+		if (!(usage.key in referenceEntries) && !pluralKeys.has(usage.key)) {
+			missing.push(usage);
+		}
+	}
+	return missing;
+}
+
+/**
+ * Keys of a catalogue never used, directly or through their plural base. A
+ * key built at runtime, such as `errors.${code}`, uses every key its
+ * `dynamicKeyPattern` matches.
+ */
+export function findUnusedKeys(
+	entries: Record<string, string>,
+	usedKeys: ReadonlySet<string>,
+	dynamicKeys: readonly RegExp[] = [],
+): string[] {
+	return Object.keys(entries).filter((key) => {
+		const used = [key, pluralBaseKey(key)].filter(
+			(candidate) => candidate !== undefined,
+		);
+		return !used.some(
+			(candidate) =>
+				usedKeys.has(candidate) ||
+				dynamicKeys.some((pattern) => pattern.test(candidate)),
+		);
+	});
+}
@@ -0,0 +1,211 @@
+import * as vscode from "vscode";
+import { getKeyPrefixAt } from "./keyReferences";
+import { NAMESPACE_SEPARATOR, qualifyKey, unqualifyKey } from "./namespaces";
+import { pluralBaseKey } from "./plurals";
+import {
+	createMatcher,
+	DEFAULT_SEARCH_OPTIONS,
+	type Matcher,
+} from "./translationSearch";
+import type { FolderTranslations, TranslationStore } from "./translationStore";
+import { namespaceAt } from "./usagePatterns";
+
+/** Characters after which keys are suggested */
+export const KEY_COMPLETION_TRIGGERS = [
+	'"',
+	"'",
+	"`",
+	".",
+	NAMESPACE_SEPARATOR,
+];
+
+/** Keys suggested for their value, at most */
+const MAX_VALUE_MATCHES = 50;
+
+/** Shorter text would match the values of too many keys */
+const MIN_VALUE_SEARCH_LENGTH = 2;
+
+const SEGMENT_SEPARATOR = /[.:]/;
+
+/**
+ * Suggests keys inside translation calls, one segment of the nesting path
+ * at a time: `common.` first, then `hello` and `welcome`. Keys whose value
+ * matches the typed text are suggested too, so `t("Welcome` offers
+ * `common.welcome`.
+ */
+export class KeyCompletionProvider implements vscode.CompletionItemProvider {
+	constructor(private store: TranslationStore) {}
+
+	provideCompletionItems(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): vscode.CompletionList | undefined {
+		const folder = this.store.forUri(document.uri);
+		const typed = getKeyPrefixAt(document, position);
+		if (!folder || !typed) {
+			return undefined;
+		}
+
+		// Keys are written without the namespace selected by `useTranslation`
+		const namespace = folder.namespaced
+			? namespaceAt(document.getText(), document.offsetAt(position))
+			: undefined;
+		const keys = writtenKeys(folder, namespace);
+
+		const separator = Math.max(
+			typed.prefix.lastIndexOf("."),
+			typed.prefix.lastIndexOf(NAMESPACE_SEPARATOR),
+		);
+		const parent = typed.prefix.slice(0, separator + 1);
+		const segmentRange = new vscode.Range(
+			typed.range.start.translate(0, parent.length),
+			typed.range.end,
+		);
+		const segmentReplace = {
+			inserting: new vscode.Range(segmentRange.start, position),
+			replacing: segmentRange,
+		};
+
+		const items = new Map<string, vscode.CompletionItem>();
+		for (const [written, key] of keys) {
+			if (!written.startsWith(parent)) {
+				continue;
+			}
+			const rest = written.slice(parent.length);
+			const next = SEGMENT_SEPARATOR.exec(rest);
+			const segment = next ? rest.slice(0, next.index + 1) : rest;
+			if (!segment || items.has(segment)) {
+				continue;
+			}
+			const item = next
+				? this.groupItem(segment, parent, keys)
+				: this.keyItem(folder, segment, key);
+			item.range = segmentReplace;
+			items.set(segment, item);
+		}
+
+		// A typed value suggests the keys holding it, replacing the whole text
+		const search = typed.prefix.slice(separator + 1);
+		const matcher =
+			search.length >= MIN_VALUE_SEARCH_LENGTH
+				? createMatcher(search, DEFAULT_SEARCH_OPTIONS)
+				: undefined;
+		if (typeof matcher === "function") {
+			const matches = [...keys]
+				// Keys of the current level are already suggested
+				.filter(
+					([written]) =>
+						!written.startsWith(parent) ||
+						!items.has(written.slice(parent.length)),
+				)
+				.map(([written, key]) => ({
+					written,
+					key,
+					score: this.bestValueMatch(folder, key, matcher),
+				}))
+				.filter((match) => match.score >= 0)
+				.sort((a, b) => b.score - a.score)
+				.slice(0, MAX_VALUE_MATCHES);
+			for (const [index, { written, key }] of matches.entries()) {
+				const item = this.keyItem(folder, written, key);
+				// The typed value is not part of the key, so filter on it
+				item.filterText = typed.prefix;
+				item.sortText = `~${String(index).padStart(3, "0")}`;
+				item.range = {
+					inserting: new vscode.Range(typed.range.start, position),
+					replacing: typed.range,
+				};
+				items.set(`value:${written}`, item);
+			}
+		}
+
+		// Values are matched on every keystroke
+		return new vscode.CompletionList([...items.values()], true);
+	}
+
+	/** A segment leading to nested keys, completed with its separator */
+	private groupItem(
+		segment: string,
+		parent: string,
+		keys: Map<string, string>,
+	): vscode.CompletionItem {
+		const path = parent + segment;
+		const count = [...keys.keys()].filter((key) => key.startsWith(path)).length;
+		const item = new vscode.CompletionItem(
+			segment.slice(0, -1),
+			vscode.CompletionItemKind.Module,
+		);
+		item.insertText = segment;
+		item.detail = `${count} key${count === 1 ? "" : "s"}`;
+		// Continue with the nested keys
+		item.command = {
+			title: "Suggest Nested Keys",
+			command: "editor.action.triggerSuggest",
+		};
+		return item;
+	}
+
+	/** A key to insert, described by its values */
+	private keyItem(
+		folder: FolderTranslations,
+		label: string,
+		key: string,
+	): vscode.CompletionItem {
+		const item = new vscode.CompletionItem(
+			label,
+			vscode.CompletionItemKind.Text,
+		);
+		const translations = folder.displayedTranslationsFor(key);
+		const reference = folder.cataloguesFor(key)[0]?.locale;
+		item.detail = (reference && translations[reference]) ?? key;
+
+		const documentation = new vscode.MarkdownString();
+		documentation.appendMarkdown("**");
+		documentation.appendText(key);
+		documentation.appendMarkdown("**\n\n");
+		for (const [locale, value] of Object.entries(translations)) {
+			documentation.appendMarkdown(`\`${locale}\` `);
+			documentation.appendText(value);
+			documentation.appendMarkdown("\n\n");
+		}
+		item.documentation = documentation;
+		return item;
+	}
+
+	/** Best score of the matcher over the values of a key, or -1 */
+	private bestValueMatch(
+		folder: FolderTranslations,
+		key: string,
+		matcher: Matcher,
+	): number {
+		return Math.max(
+			-1,
+			...Object.values(folder.displayedTranslationsFor(key)).map(
+				(value) => matcher(value)?.score ?? -1,
+			),
+		);
+	}
+}
+
+/**
+ * Keys as written in code, mapped to the key they stand for. Plural forms
+ * are written as their base key, and keys of the namespace in scope without
+ * the namespace.
+ */
+function writtenKeys(
+	folder: FolderTranslations,
+	namespace: string | undefined,
+): Map<string, string> {
+	const keys = new Map<string, string>();
+	const entries = folder.referenceEntries;
+	for (const entry of Object.keys(entries)) {
+		const baseKey = pluralBaseKey(entry);
+		const key = baseKey && !(baseKey in entries) ? baseKey : entry;
+		const inScope =
+			namespace && key.startsWith(qualifyKey(namespace, ""))
+				? unqualifyKey(namespace, key)
+				: key;
+		keys.set(inScope, key);
+	}
+	return keys;
+}
@@ -0,0 +1,127 @@
+import * as fs from "fs";
+import * as vscode from "vscode";
+import { catalogueKey } from "./catalogue";
+import { getLogger } from "./logger";
+import { pluralForms } from "./plurals";
+import type { SourceLocation } from "./sourceLocation";
+import type { FolderTranslations } from "./translationStore";
+
+export function toLocation(location: SourceLocation): vscode.Location {
+	return new vscode.Location(
+		vscode.Uri.file(location.filePath),
+		new vscode.Range(
+			location.line,
+			location.character,
+			location.line,
+			location.character + location.length,
+		),
+	);
+}
+
+/**
+ * Finds where a key is defined in a locale's catalogue (the reference locale
+ * by default). Uses the position recorded by the catalogue loader, then the
+ * document symbols of the catalogue file, and finally the first occurrence of
+ * the key's last segment.
+ */
+export async function findKeyDefinition(
+	translations: FolderTranslations,
+	key: string,
+	locale?: string,
+): Promise<vscode.Location | undefined> {
+	const catalogues = translations.cataloguesFor(key);
+	const catalogue = locale
+		? catalogues.find((candidate) => candidate.locale === locale)
+		: catalogues[0];
+	if (!catalogue) {
+		return undefined;
+	}
+	if (!(key in catalogue.entries)) {
+		// Plural keys are defined through their forms, e.g. `items_one`
+		const [form] = pluralForms(catalogue.entries, key);
+		return form
+			? findKeyDefinition(translations, form, catalogue.locale)
+			: undefined;
+	}
+
+	const recorded = catalogue.locations[key];
+	if (recorded) {
+		return toLocation(recorded);
+	}
+
+	// Fall back to searching the file for the key as written there
+	key = catalogueKey(catalogue, key);
+	const uri = vscode.Uri.file(catalogue.filePath);
+	try {
+		const symbols = await vscode.commands.executeCommand<
+			vscode.DocumentSymbol[] | undefined
+		>("vscode.executeDocumentSymbolProvider", uri);
+		const symbol = symbols && findSymbol(symbols, key.split("."));
+		if (symbol) {
+			return new vscode.Location(uri, symbol.selectionRange);
+		}
+	} catch (error) {
+		getLogger().debug(`No document symbols for ${catalogue.filePath}:`, error);
+	}
+
+	const content = await fs.promises.readFile(catalogue.filePath, "utf-8");
+	const segment = key.split(".").pop() ?? key;
+	let offset = content.indexOf(key);
+	if (offset === -1) {
+		offset = content.indexOf(segment);
+	}
+	if (offset === -1) {
+		return new vscode.Location(uri, new vscode.Position(0, 0));
+	}
+	const document = await vscode.workspace.openTextDocument(uri);
+	return new vscode.Location(uri, document.positionAt(offset));
+}
+
+/**
+ * Matches key segments against nested symbols. A symbol may also match
+ * several segments at once (flat dotted keys), and wrapper symbols such as
+ * `default` are skipped.
+ */
+function findSymbol(
+	symbols: vscode.DocumentSymbol[],
+	segments: string[],
+): vscode.DocumentSymbol | undefined {
+	for (const symbol of symbols) {
+		const name = symbol.name.replace(/^(["'`])(.*)\1$/, "$2");
+		for (let i = segments.length; i >= 1; i--) {
+			if (name !== segments.slice(0, i).join(".")) {
+				continue;
+			}
+			if (i === segments.length) {
+				return symbol;
+			}
+			const nested = findSymbol(symbol.children, segments.slice(i));
+			if (nested) {
+				return nested;
+			}
+		}
+		const wrapped = findSymbol(symbol.children, segments);
+		if (wrapped) {
+			return wrapped;
+		}
+	}
+	return undefined;
+}
+
+/** Opens a locale's catalogue with the cursor on the definition of a key */
+export async function openKeyDefinition(
+	translations: FolderTranslations,
+	key: string,
+	locale?: string,
+) {
+	const location = await findKeyDefinition(translations, key, locale);
+	if (!location) {
+		vscode.window.showInformationMessage(
+			`Translation key not found in catalogue: ${key}`,
+		);
+		return;
+	}
+	await vscode.window.showTextDocument(location.uri, {
+		selection: location.range,
+	});
+}
@@ -0,0 +1,99 @@
+import * as vscode from "vscode";
+import { findKeyDefinition, toLocation } from "./keyDefinitions";
+import { getKeyAtPosition } from "./keyReferences";
+import type { FolderTranslations, TranslationStore } from "./translationStore";
+import type { UsageIndex } from "./usageIndex";
+
+/** Go to Definition on a key usage lists the key in every locale's catalogue */
+export class KeyDefinitionProvider implements vscode.DefinitionProvider {
+	constructor(private store: TranslationStore) {}
+
+	async provideDefinition(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): Promise<vscode.LocationLink[] | undefined> {
+		const reference = getKeyAtPosition(document, position);
+		const folder = this.store.forUri(document.uri);
+		if (!reference || !folder) {
+			return undefined;
+		}
+
+		const locations = await findDefinitions(folder, reference.key);
+		return locations.map((location) => ({
+			originSelectionRange: reference.range,
+			targetUri: location.uri,
+			targetRange: location.range,
+		}));
+	}
+}
+
+/**
+ * Find All References on a key, either a property in a catalogue file or a
+ * usage in code, lists every usage in the workspace.
+ */
+export class KeyReferenceProvider implements vscode.ReferenceProvider {
+	constructor(
+		private store: TranslationStore,
+		private usageIndex: UsageIndex,
+	) {}
+
+	async provideReferences(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+		context: vscode.ReferenceContext,
+	): Promise<vscode.Location[] | undefined> {
+		// Usages are looked up in the folder that owns the catalogue
+		const owner = this.store.forCatalogue(document.uri.fsPath);
+		const folder = owner ?? this.store.forUri(document.uri);
+		const key = owner
+			? catalogueKeyAt(owner, document, position)
+			: getKeyAtPosition(document, position)?.key;
+		if (!key || !folder) {
+			return undefined;
+		}
+
+		const usages = await this.usageIndex.getUsages(key, folder);
+		const locations = usages.map(toLocation);
+		if (context.includeDeclaration) {
+			locations.unshift(...(await findDefinitions(folder, key)));
+		}
+		return locations;
+	}
+}
+
+/** The key whose recorded definition in a catalogue contains the position */
+export function catalogueKeyAt(
+	folder: FolderTranslations,
+	document: vscode.TextDocument,
+	position: vscode.Position,
+): string | undefined {
+	const catalogue = folder.locales.find(
+		(candidate) => candidate.filePath === document.uri.fsPath,
+	);
+	for (const [key, location] of Object.entries(catalogue?.locations ?? {})) {
+		// Entries spread or imported into the catalogue are defined elsewhere
+		if (
+			location.filePath === document.uri.fsPath &&
+			location.line === position.line &&
+			position.character >= location.character &&
+			position.character <= location.character + location.length
+		) {
+			return key;
+		}
+	}
+	return undefined;
+}
+
+async function findDefinitions(
+	folder: FolderTranslations,
+	key: string,
+): Promise<vscode.Location[]> {
+	const locations: vscode.Location[] = [];
+	for (const catalogue of folder.cataloguesFor(key)) {
+		const location = await findKeyDefinition(folder, key, catalogue.locale);
+		if (location) {
+			locations.push(location);
+		}
+	}
+	return locations;
+}
@@ -0,0 +1,95 @@
+import * as vscode from "vscode";
+import { getUsagePatterns, usesNamespaces } from "./config";
+import { matchUsagePatterns } from "./usagePatterns";
+
+/** Documents in which translation keys are looked up for editor features */
+export const USAGE_DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+	{ language: "typescript" },
+	{ language: "typescriptreact" },
+	{ language: "javascript" },
+	{ language: "javascriptreact" },
+	{ language: "vue" },
+];
+
+/** How far back the start of a call is looked for when completing a key */
+const MAX_CALL_PREFIX = 500;
+
+export interface KeyReference {
+	key: string;
+	/** Range of the key as written in the document */
+	range: vscode.Range;
+}
+
+/** Every key reference in a document, found with the usage patterns */
+export function getKeyReferences(
+	document: vscode.TextDocument,
+): KeyReference[] {
+	return matchUsagePatterns(document.getText(), getUsagePatterns(), {
+		namespaces: usesNamespaces(document.uri),
+	})
+		.filter(({ key }) => !key.includes("${"))
+		.map(({ key, offset, length }) => ({
+			key,
+			range: new vscode.Range(
+				document.positionAt(offset),
+				document.positionAt(offset + length),
+			),
+		}));
+}
+
+/** A key partly typed inside a translation call */
+export interface KeyPrefix {
+	/** Text from the start of the key to the cursor, e.g. `common.we` */
+	prefix: string;
+	/** Range of the whole key, including any text after the cursor */
+	range: vscode.Range;
+}
+
+/**
+ * The key being typed at a position, e.g. `common.we` in `t("common.we`.
+ * Only strings in which the usage patterns expect a key qualify.
+ */
+export function getKeyPrefixAt(
+	document: vscode.TextDocument,
+	position: vscode.Position,
+): KeyPrefix | undefined {
+	const text = document.getText();
+	const offset = document.offsetAt(position);
+	const before = text.slice(Math.max(0, offset - MAX_CALL_PREFIX), offset);
+	// Values typed to find their key may contain spaces
+	const opening = /(['"`])([^'"`\r\n]*)$/.exec(before);
+	if (!opening) {
+		return undefined;
+	}
+
+	// Complete the key with a placeholder and check a pattern matches it there
+	const keyStart = opening.index + 1;
+	const probe = `${before.slice(0, keyStart)}key${opening[1]}`;
+	if (
+		!matchUsagePatterns(probe, getUsagePatterns()).some(
+			(match) => match.offset === keyStart,
+		)
+	) {
+		return undefined;
+	}
+
+	const prefix = opening[2];
+	const rest = /^[^'"`\r\n]*/.exec(text.slice(offset, offset + 200))?.[0] ?? "";
+	return {
+		prefix,
+		range: new vscode.Range(
+			document.positionAt(offset - prefix.length),
+			document.positionAt(offset + rest.length),
+		),
+	};
+}
+
+/** The key reference at a position, e.g. the cursor inside `t("key")` */
+export function getKeyAtPosition(
+	document: vscode.TextDocument,
+	position: vscode.Position,
+): KeyReference | undefined {
+	return getKeyReferences(document).find(({ range }) =>
+		range.contains(position),
+	);
+}
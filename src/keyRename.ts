@@ -0,0 +1,396 @@
+import * as vscode from "vscode";
+import { catalogueKey, definingFile } from "./catalogue";
+import { type EntryEdit, entryEditsChange } from "./catalogueWriter";
+import { catalogueKeyAt } from "./keyNavigation";
+import { getKeyAtPosition } from "./keyReferences";
+import { getLogger } from "./logger";
+import { NAMESPACE_SEPARATOR, qualifyKey } from "./namespaces";
+import { pluralBaseKey, pluralForms } from "./plurals";
+import type { SourceLocation } from "./sourceLocation";
+import type { FolderTranslations, TranslationStore } from "./translationStore";
+import { openLocation, pickLocation, type UsageIndex } from "./usageIndex";
+import { dynamicKeyMatches } from "./usageScanner";
+
+/** The key to rename, found at a position in a catalogue or in code */
+interface RenameSubject {
+	folder: FolderTranslations;
+	key: string;
+	range: vscode.Range;
+}
+
+/** A usage that a rename leaves unchanged, to be updated by hand */
+interface SkippedUsage {
+	location: SourceLocation;
+	reason: string;
+}
+
+interface KeyRename {
+	edit: vscode.WorkspaceEdit;
+	skipped: SkippedUsage[];
+}
+
+/**
+ * Renames a key from a usage in code or from its property in a catalogue:
+ * the entry in every locale's catalogue and every usage found in code.
+ */
+export class KeyRenameProvider implements vscode.RenameProvider {
+	constructor(
+		private store: TranslationStore,
+		private usageIndex: UsageIndex,
+	) {}
+
+	prepareRename(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): { range: vscode.Range; placeholder: string } {
+		const subject = findRenameSubject(this.store, document, position);
+		if (!subject) {
+			throw new Error("Place the cursor on a translation key to rename it");
+		}
+		return { range: subject.range, placeholder: subject.key };
+	}
+
+	async provideRenameEdits(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+		newName: string,
+	): Promise<vscode.WorkspaceEdit | undefined> {
+		const subject = findRenameSubject(this.store, document, position);
+		if (!subject) {
+			return undefined;
+		}
+		const rename = await planKeyRename(
+			subject.folder,
+			this.usageIndex,
+			subject.key,
+			newName,
+		);
+		reportSkippedUsages(subject.key, rename.skipped);
+		return rename.edit;
+	}
+}
+
+/** Registers the rename provider and the command that renames a key */
+export function registerKeyRename(
+	context: vscode.ExtensionContext,
+	store: TranslationStore,
+	usageIndex: UsageIndex,
+) {
+	context.subscriptions.push(
+		vscode.languages.registerRenameProvider(
+			{ scheme: "file" },
+			new KeyRenameProvider(store, usageIndex),
+		),
+		vscode.commands.registerCommand(
+			"i18n-search.renameKey",
+			async (key?: string, folderUri?: string) => {
+				let folder = store.findFolder(folderUri);
+				if (!key) {
+					const editor = vscode.window.activeTextEditor;
+					const subject =
+						editor &&
+						findRenameSubject(store, editor.document, editor.selection.active);
+					folder = subject?.folder ?? folder;
+					key =
+						subject?.key ??
+						(await vscode.window.showInputBox({
+							prompt: "Enter the translation key to rename",
+							placeHolder: "e.g., common.hello",
+						}));
+					if (!key) {
+						return;
+					}
+				}
+				if (!folder) {
+					vscode.window.showInformationMessage(
+						"No translation catalogue is loaded",
+					);
+					return;
+				}
+				await renameKeyWithPreview(folder, usageIndex, key);
+			},
+		),
+	);
+}
+
+/** Asks for the new key, then previews the rename before applying it */
+async function renameKeyWithPreview(
+	folder: FolderTranslations,
+	usageIndex: UsageIndex,
+	key: string,
+) {
+	const newName = await vscode.window.showInputBox({
+		title: `Rename ${key}`,
+		prompt: "New key, renamed in every catalogue and usage",
+		value: key,
+		validateInput: (input) =>
+			input === key
+				? undefined
+				: renameError(folder, key, resolveNewKey(folder, key, input)),
+	});
+	if (!newName || newName === key) {
+		return;
+	}
+	try {
+		const rename = await planKeyRename(folder, usageIndex, key, newName);
+		reportSkippedUsages(key, rename.skipped);
+		if (rename.edit.size > 0) {
+			await vscode.workspace.applyEdit(rename.edit, { isRefactoring: true });
+		}
+	} catch (error) {
+		getLogger().error(`Failed to rename ${key}:`, error);
+		vscode.window.showErrorMessage(
+			`Failed to rename ${key}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+}
+
+function findRenameSubject(
+	store: TranslationStore,
+	document: vscode.TextDocument,
+	position: vscode.Position,
+): RenameSubject | undefined {
+	const owner = store.forCatalogue(document.uri.fsPath);
+	if (owner) {
+		const key = catalogueKeyAt(owner, document, position);
+		const catalogue = owner.locales.find(
+			(candidate) => candidate.filePath === document.uri.fsPath,
+		);
+		const location = key ? catalogue?.locations[key] : undefined;
+		if (!key || !location) {
+			return undefined;
+		}
+		return {
+			folder: owner,
+			key: subjectKey(owner, key),
+			range: new vscode.Range(
+				location.line,
+				location.character,
+				location.line,
+				location.character + location.length,
+			),
+		};
+	}
+
+	const folder = store.forUri(document.uri);
+	const reference = getKeyAtPosition(document, position);
+	if (!folder || !reference) {
+		return undefined;
+	}
+	return {
+		folder,
+		key: subjectKey(folder, reference.key),
+		range: reference.range,
+	};
+}
+
+/** Plural forms such as `items_one` are renamed together, as `items` */
+function subjectKey(folder: FolderTranslations, key: string): string {
+	const baseKey = pluralBaseKey(key);
+	return baseKey && Object.keys(folder.translationsFor(baseKey)).length === 0
+		? baseKey
+		: key;
+}
+
+/** A new key without a namespace stays in the namespace of the old one */
+function resolveNewKey(
+	folder: FolderTranslations,
+	key: string,
+	newName: string,
+): string {
+	const namespace = folder.cataloguesFor(key)[0]?.namespace;
+	const newKey = newName.trim();
+	return namespace && !newKey.includes(NAMESPACE_SEPARATOR)
+		? qualifyKey(namespace, newKey)
+		: newKey;
+}
+
+function renameError(
+	folder: FolderTranslations,
+	key: string,
+	newKey: string,
+): string | undefined {
+	if (!newKey || newKey.endsWith(".") || /['"`\s]/.test(newKey)) {
+		return `Invalid translation key: ${newKey}`;
+	}
+	if (folder.cataloguesFor(newKey) !== folder.cataloguesFor(key)) {
+		return "Keys cannot be moved to another namespace";
+	}
+	for (const catalogue of folder.cataloguesFor(key)) {
+		const filePath = definingFile(catalogue, key);
+		if (filePath) {
+			return `${key} is defined in ${vscode.workspace.asRelativePath(filePath)}; rename it there`;
+		}
+	}
+	for (const target of renamedKeys(folder, key, newKey).values()) {
+		if (Object.keys(folder.translationsFor(target)).length > 0) {
+			return `Translation key already exists: ${target}`;
+		}
+	}
+	return undefined;
+}
+
+/** Old and new names of the key and of its plural forms */
+function renamedKeys(
+	folder: FolderTranslations,
+	key: string,
+	newKey: string,
+): Map<string, string> {
+	const renamed = new Map([[key, newKey]]);
+	for (const catalogue of folder.cataloguesFor(key)) {
+		for (const form of pluralForms(catalogue.entries, key)) {
+			renamed.set(form, newKey + form.slice(key.length));
+		}
+	}
+	return renamed;
+}
+
+/**
+ * Builds the edit renaming a key in every catalogue of its folder, moving
+ * nested entries to their new parent, and in every usage found in code.
+ * Every change needs confirmation, so the edit is previewed first.
+ */
+export async function planKeyRename(
+	folder: FolderTranslations,
+	usageIndex: UsageIndex,
+	key: string,
+	newName: string,
+): Promise<KeyRename> {
+	const edit = new vscode.WorkspaceEdit();
+	const newKey = resolveNewKey(folder, key, newName);
+	if (newKey === key) {
+		return { edit, skipped: [] };
+	}
+	const error = renameError(folder, key, newKey);
+	if (error) {
+		throw new Error(error);
+	}
+	const renamed = renamedKeys(folder, key, newKey);
+
+	for (const catalogue of folder.cataloguesFor(key)) {
+		const edits: EntryEdit[] = [...renamed]
+			.filter(([oldKey]) => oldKey in catalogue.entries)
+			.map(([oldKey, renamedKey]) => ({
+				type: "rename",
+				key: catalogueKey(catalogue, oldKey),
+				newKey: catalogueKey(catalogue, renamedKey),
+			}));
+		if (edits.length === 0) {
+			continue;
+		}
+		const document = await vscode.workspace.openTextDocument(
+			vscode.Uri.file(catalogue.filePath),
+		);
+		const change = entryEditsChange(
+			document.getText(),
+			catalogue.filePath,
+			edits,
+		);
+		edit.replace(
+			document.uri,
+			new vscode.Range(
+				document.positionAt(change.offset),
+				document.positionAt(change.offset + change.length),
+			),
+			change.text,
+			{
+				needsConfirmation: true,
+				label: "Rename in catalogues",
+				description: catalogue.locale,
+			},
+		);
+	}
+
+	const skipped: SkippedUsage[] = [];
+	for (const [oldKey, renamedKey] of renamed) {
+		for (const usage of await usageIndex.getUsages(oldKey, folder)) {
+			const document = await vscode.workspace.openTextDocument(
+				vscode.Uri.file(usage.filePath),
+			);
+			const range = new vscode.Range(
+				usage.line,
+				usage.character,
+				usage.line,
+				usage.character + usage.length,
+			);
+			const text = renamedUsageText(
+				document.getText(range),
+				oldKey,
+				renamedKey,
+			);
+			if (text === undefined) {
+				skipped.push({
+					location: usage,
+					reason: `Its namespace or scope is set elsewhere: ${usage.lineText.trim()}`,
+				});
+				continue;
+			}
+			edit.replace(document.uri, range, text, {
+				needsConfirmation: true,
+				label: "Rename usages",
+			});
+		}
+	}
+
+	for (const usage of await usageIndex.findDynamicUsages(folder)) {
+		if (
+			[...renamed.keys()].some((oldKey) => dynamicKeyMatches(usage.key, oldKey))
+		) {
+			skipped.push({
+				location: usage,
+				reason: `The key is built at runtime: ${usage.key}`,
+			});
+		}
+	}
+
+	return { edit, skipped };
+}
+
+/**
+ * New text of a usage written as `written`, which may leave out a prefix of
+ * the key set elsewhere, e.g. `title` after `useTranslation("checkout")`. The
+ * usage cannot be renamed if the new key does not share that prefix.
+ */
+function renamedUsageText(
+	written: string,
+	key: string,
+	newKey: string,
+): string | undefined {
+	if (written === key) {
+		return newKey;
+	}
+	const prefix = key.slice(0, key.length - written.length);
+	if (!written || !key.endsWith(written) || !newKey.startsWith(prefix)) {
+		return undefined;
+	}
+	return newKey.slice(prefix.length);
+}
+
+/** Logs the usages a rename left unchanged and offers to list them */
+function reportSkippedUsages(key: string, skipped: SkippedUsage[]) {
+	if (skipped.length === 0) {
+		return;
+	}
+	for (const { location, reason } of skipped) {
+		getLogger().warn(
+			`Usage of ${key} not renamed at ${location.filePath}:${location.line + 1}: ${reason}`,
+		);
+	}
+	vscode.window
+		.showWarningMessage(
+			`${skipped.length} usage(s) of "${key}" cannot be renamed safely and must be updated by hand`,
+			"Show Usages",
+		)
+		.then(async (action) => {
+			if (!action) {
+				return;
+			}
+			const location = await pickLocation(
+				skipped.map(({ location }) => location),
+				`Usages of ${key} to update by hand`,
+			);
+			if (location) {
+				await openLocation(location);
+			}
+		});
+}
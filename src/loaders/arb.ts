@@ -0,0 +1,26 @@
+import { jsonKeyLocations, stripBom } from "./json";
+import type { CatalogueLoader } from "./types";
+
+/**
+ * Flutter Application Resource Bundle. Keys are flat; `@key` entries hold
+ * metadata and `@@locale` names the locale, neither of which are translations.
+ */
+export const arbLoader: CatalogueLoader = {
+	extensions: [".arb"],
+	load(content, filePath) {
+		const text = stripBom(content);
+		const bundle = JSON.parse(text);
+
+		if (!bundle || typeof bundle !== "object" || Array.isArray(bundle)) {
+			throw new Error("ARB translation file must contain an object");
+		}
+
+		const entries: Record<string, string> = {};
+		for (const [key, value] of Object.entries(bundle)) {
+			if (!key.startsWith("@") && typeof value === "string") {
+				entries[key] = value;
+			}
+		}
+		return { entries, locations: jsonKeyLocations(text, filePath, entries) };
+	},
+};
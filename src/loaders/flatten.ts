@@ -0,0 +1,45 @@
+import type { SourceLocation } from "../sourceLocation";
+import type { LoadedTranslations } from "./types";
+
+/** Looks up where a property of a parsed object was defined */
+export type PropertyLocator = (
+	parent: object,
+	property: string,
+) => SourceLocation | undefined;
+
+/** Flattens nested translations into dot-separated keys */
+export function flatten(obj: any): Record<string, string> {
+	return flattenWithLocations(obj).entries;
+}
+
+/**
+ * Flattens nested translations, recording the definition of each key when
+ * `locate` knows it.
+ */
+export function flattenWithLocations(
+	obj: any,
+	locate?: PropertyLocator,
+): LoadedTranslations {
+	const entries: Record<string, string> = {};
+	const locations: Record<string, SourceLocation> = {};
+
+	function visit(value: any, prefix: string, location?: SourceLocation) {
+		if (typeof value === "string") {
+			entries[prefix] = value;
+			if (location) {
+				locations[prefix] = location;
+			}
+		} else if (typeof value === "object" && value !== null) {
+			for (const key in value) {
+				visit(
+					value[key],
+					prefix ? `${prefix}.${key}` : key,
+					locate?.(value, key),
+				);
+			}
+		}
+	}
+
+	visit(obj, "");
+	return { entries, locations };
+}
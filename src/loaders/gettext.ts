@@ -0,0 +1,168 @@
+import type { SourceLocation } from "../sourceLocation";
+import type { CatalogueLoader } from "./types";
+
+/** Separates `msgctxt` from `msgid` in the keys of contextual messages */
+export const GETTEXT_CONTEXT_SEPARATOR = "|";
+
+export interface PoMessage {
+	msgctxt?: string;
+	msgid?: string;
+	msgstr: string[];
+	/** Zero-based line of the `msgid` keyword */
+	line?: number;
+	/** Zero-based lines of the message, from its first comment to its last string */
+	start: number;
+	end: number;
+	/** Zero-based line of the first `msgstr` keyword */
+	msgstrLine?: number;
+	/** Whether the message has plural forms (`msgid_plural`) */
+	plural: boolean;
+}
+
+/**
+ * gettext catalogues. Each `msgid` is the key and its `msgstr` the value;
+ * messages with a `msgctxt` are keyed `context|msgid`. Plural forms other
+ * than the first are keyed `msgid_1`, `msgid_2`, … and the header entry
+ * (empty `msgid`) is skipped.
+ */
+export const gettextLoader: CatalogueLoader = {
+	extensions: [".po", ".pot"],
+	load(content, filePath) {
+		const entries: Record<string, string> = {};
+		const locations: Record<string, SourceLocation> = {};
+		const lines = content.split(/\r?\n/);
+
+		for (const message of parsePo(lines)) {
+			if (!message.msgid) {
+				continue;
+			}
+			const key =
+				message.msgctxt !== undefined
+					? `${message.msgctxt}${GETTEXT_CONTEXT_SEPARATOR}${message.msgid}`
+					: message.msgid;
+			const lineText = lines[message.line ?? 0] ?? "";
+			const character = lineText.search(/\S/);
+			message.msgstr.forEach((value, index) => {
+				const entryKey = index === 0 ? key : `${key}_${index}`;
+				entries[entryKey] = value ?? "";
+				locations[entryKey] = {
+					filePath,
+					line: message.line ?? 0,
+					character: Math.max(character, 0),
+					length: lineText.trim().length,
+					lineText,
+				};
+			});
+		}
+
+		return { entries, locations };
+	},
+};
+
+export function parsePo(lines: string[]): PoMessage[] {
+	const messages: PoMessage[] = [];
+	let current: PoMessage = { msgstr: [], start: -1, end: -1, plural: false };
+	// Field that continuation lines ("...") are appended to
+	let field: { name: "msgctxt" | "msgid" | "msgstr"; index: number } | null =
+		null;
+
+	const flush = () => {
+		if (current.msgid !== undefined) {
+			messages.push(current);
+		}
+		current = { msgstr: [], start: -1, end: -1, plural: false };
+		field = null;
+	};
+
+	const append = (text: string) => {
+		if (!field) {
+			return;
+		}
+		if (field.name === "msgstr") {
+			current.msgstr[field.index] = (current.msgstr[field.index] ?? "") + text;
+		} else {
+			current[field.name] = (current[field.name] ?? "") + text;
+		}
+	};
+
+	lines.forEach((rawLine, index) => {
+		const line = rawLine.trim();
+
+		if (!line) {
+			flush();
+			return;
+		}
+		if (current.start === -1) {
+			current.start = index;
+		}
+		if (line.startsWith("#")) {
+			return;
+		}
+		current.end = index;
+		if (line.startsWith('"')) {
+			append(parsePoString(line, index));
+			return;
+		}
+
+		const match =
+			/^(msgctxt|msgid_plural|msgid|msgstr)(?:\[(\d+)\])?\s+(".*)$/.exec(line);
+		if (!match) {
+			throw new Error(`Invalid gettext syntax on line ${index + 1}: ${line}`);
+		}
+
+		const [, keyword, pluralIndex, text] = match;
+		if (
+			(keyword === "msgctxt" || keyword === "msgid") &&
+			current.msgstr.length > 0
+		) {
+			// A new message starts without a blank line in between
+			flush();
+			current.start = index;
+			current.end = index;
+		}
+
+		if (keyword === "msgid_plural") {
+			// Plural source text is not part of the key
+			current.plural = true;
+			field = null;
+			return;
+		}
+		if (keyword === "msgstr") {
+			current.msgstrLine ??= index;
+			field = { name: "msgstr", index: pluralIndex ? Number(pluralIndex) : 0 };
+			current.msgstr[field.index] = "";
+		} else {
+			const name = keyword as "msgctxt" | "msgid";
+			field = { name, index: 0 };
+			current[name] = "";
+			if (name === "msgid") {
+				current.line = index;
+			}
+		}
+		append(parsePoString(text, index));
+	});
+
+	flush();
+	return messages;
+}
+
+function parsePoString(text: string, lineIndex: number): string {
+	const match = /^"((?:[^"\\]|\\.)*)"$/.exec(text.trim());
+	if (!match) {
+		throw new Error(
+			`Invalid gettext string on line ${lineIndex + 1}: ${text.trim()}`,
+		);
+	}
+	return match[1].replace(/\\(.)/g, (_, char: string) => {
+		switch (char) {
+			case "n":
+				return "\n";
+			case "t":
+				return "\t";
+			case "r":
+				return "\r";
+			default:
+				return char;
+		}
+	});
+}
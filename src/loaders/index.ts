@@ -0,0 +1,32 @@
+import * as path from "path";
+import { arbLoader } from "./arb";
+import { gettextLoader } from "./gettext";
+import { jsonLoader } from "./json";
+import { propertiesLoader } from "./properties";
+import type { CatalogueLoader } from "./types";
+import { typescriptLoader } from "./typescript";
+import { yamlLoader } from "./yaml";
+
+export type { CatalogueLoader } from "./types";
+
+const loaders: CatalogueLoader[] = [
+	typescriptLoader,
+	jsonLoader,
+	yamlLoader,
+	gettextLoader,
+	propertiesLoader,
+	arbLoader,
+];
+
+/**
+ * Registers an additional loader. Loaders registered later take precedence
+ * for the extensions they share with earlier ones.
+ */
+export function registerLoader(loader: CatalogueLoader) {
+	loaders.unshift(loader);
+}
+
+export function getLoader(filePath: string): CatalogueLoader | undefined {
+	const extension = path.extname(filePath).toLowerCase();
+	return loaders.find((loader) => loader.extensions.includes(extension));
+}
@@ -0,0 +1,68 @@
+import * as ts from "typescript";
+import { LineIndex, type SourceLocation } from "../sourceLocation";
+import { flatten } from "./flatten";
+import type { CatalogueLoader } from "./types";
+
+export const jsonLoader: CatalogueLoader = {
+	extensions: [".json"],
+	load(content, filePath) {
+		const text = stripBom(content);
+		const translationObj = JSON.parse(text);
+
+		if (!translationObj || typeof translationObj !== "object") {
+			throw new Error("JSON translation file must contain an object");
+		}
+
+		const entries = flatten(translationObj);
+		return { entries, locations: jsonKeyLocations(text, filePath, entries) };
+	},
+};
+
+export function stripBom(content: string): string {
+	return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+}
+
+/**
+ * Locates the property names of the flattened `entries` in a JSON document.
+ * `JSON.parse` has already validated the document, so the lenient TypeScript
+ * JSON parser only supplies positions.
+ */
+export function jsonKeyLocations(
+	text: string,
+	filePath: string,
+	entries: Record<string, string>,
+): Record<string, SourceLocation> {
+	const sourceFile = ts.parseJsonText(filePath, text);
+	const lines = new LineIndex(text);
+	const locations: Record<string, SourceLocation> = {};
+
+	function visit(node: ts.Node, prefix: string) {
+		if (!ts.isObjectLiteralExpression(node)) {
+			return;
+		}
+		for (const property of node.properties) {
+			if (!ts.isPropertyAssignment(property) || !property.name) {
+				continue;
+			}
+			const name = ts.isStringLiteral(property.name)
+				? property.name.text
+				: property.name.getText(sourceFile);
+			const key = prefix ? `${prefix}.${name}` : name;
+			if (key in entries) {
+				const start = property.name.getStart(sourceFile);
+				locations[key] = lines.locate(
+					filePath,
+					start,
+					property.name.getEnd() - start,
+				);
+			}
+			visit(property.initializer, key);
+		}
+	}
+
+	const root = sourceFile.statements[0];
+	if (root && ts.isExpressionStatement(root)) {
+		visit(root.expression, "");
+	}
+	return locations;
+}
@@ -0,0 +1,483 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import { getLogger } from "../logger";
+import type { SourceLocation } from "../sourceLocation";
+
+const RESOLVABLE_EXTENSIONS = [
+	".ts",
+	".tsx",
+	".mts",
+	".cts",
+	".js",
+	".jsx",
+	".mjs",
+	".cjs",
+	".json",
+];
+
+interface ImportBinding {
+	specifier: string;
+	/** Imported export name, `default` or `*` for namespace imports */
+	name: string;
+}
+
+interface ModuleScope {
+	filePath: string;
+	sourceFile?: ts.SourceFile;
+	/** Value of JSON modules, which have nothing to evaluate */
+	jsonValue?: unknown;
+	declarations: Map<string, ts.Expression>;
+	imports: Map<string, ImportBinding>;
+	/** Exported name to local name */
+	exports: Map<string, string>;
+	reexports: Map<string, ImportBinding>;
+	starExports: string[];
+	defaultExport?: ts.Expression;
+	values: Map<string, unknown>;
+	evaluating: Set<string>;
+}
+
+/**
+ * Statically evaluates the exports of TypeScript/JavaScript modules, following
+ * identifier references, spreads and relative imports across files. Anything
+ * that cannot be resolved without running code evaluates to `undefined`.
+ */
+export class ModuleEvaluator {
+	private modules = new Map<string, ModuleScope | null>();
+	// Where each property of an evaluated object literal was defined
+	private propertyLocations = new WeakMap<
+		object,
+		Map<string, SourceLocation>
+	>();
+
+	/** Value of the default export (or `module.exports`) of a file */
+	evaluateDefaultExport(filePath: string, content?: string): unknown {
+		const scope = this.getModule(path.resolve(filePath), content);
+		return scope ? this.getExport(scope, "default") : undefined;
+	}
+
+	/** Value of a standalone expression, e.g. an inline object literal */
+	evaluateExpression(expression: ts.Expression, filePath: string): unknown {
+		const scope = this.createScope(filePath, expression.getSourceFile());
+		return this.evaluate(expression, scope);
+	}
+
+	/** Where `property` of an object returned by this evaluator was defined */
+	locate(parent: object, property: string): SourceLocation | undefined {
+		return this.propertyLocations.get(parent)?.get(property);
+	}
+
+	private getModule(filePath: string, content?: string): ModuleScope | null {
+		if (this.modules.has(filePath)) {
+			return this.modules.get(filePath) ?? null;
+		}
+
+		let scope: ModuleScope | null = null;
+		try {
+			const text = content ?? fs.readFileSync(filePath, "utf-8");
+			if (path.extname(filePath).toLowerCase() === ".json") {
+				scope = this.createScope(filePath);
+				scope.jsonValue = JSON.parse(text);
+			} else {
+				scope = this.createScope(
+					filePath,
+					ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true),
+				);
+			}
+		} catch (error) {
+			getLogger().warn(`Could not read translation module ${filePath}:`, error);
+		}
+
+		this.modules.set(filePath, scope);
+		return scope;
+	}
+
+	private createScope(
+		filePath: string,
+		sourceFile?: ts.SourceFile,
+	): ModuleScope {
+		const scope: ModuleScope = {
+			filePath,
+			sourceFile,
+			declarations: new Map(),
+			imports: new Map(),
+			exports: new Map(),
+			reexports: new Map(),
+			starExports: [],
+			values: new Map(),
+			evaluating: new Set(),
+		};
+		if (sourceFile) {
+			collectBindings(sourceFile, scope);
+		}
+		return scope;
+	}
+
+	private getExport(scope: ModuleScope, name: string): unknown {
+		if (scope.jsonValue !== undefined) {
+			return name === "default" || name === "*"
+				? scope.jsonValue
+				: (scope.jsonValue as Record<string, unknown>)?.[name];
+		}
+
+		if (name === "*") {
+			const namespace: Record<string, unknown> = {};
+			const names = new Set([
+				...scope.exports.keys(),
+				...scope.reexports.keys(),
+			]);
+			for (const exportName of names) {
+				namespace[exportName] = this.getExport(scope, exportName);
+			}
+			return namespace;
+		}
+
+		if (name === "default" && scope.defaultExport) {
+			return this.evaluate(scope.defaultExport, scope);
+		}
+
+		const localName = scope.exports.get(name);
+		if (localName) {
+			return this.evaluateIdentifier(localName, scope);
+		}
+
+		const reexport = scope.reexports.get(name);
+		if (reexport) {
+			return this.evaluateImport(reexport, scope);
+		}
+
+		if (name !== "default") {
+			for (const specifier of scope.starExports) {
+				const value = this.evaluateImport({ specifier, name }, scope);
+				if (value !== undefined) {
+					return value;
+				}
+			}
+		}
+
+		getLogger().debug(`No export named "${name}" in ${scope.filePath}`);
+		return undefined;
+	}
+
+	private evaluateImport(binding: ImportBinding, scope: ModuleScope): unknown {
+		const resolved = resolveModule(scope.filePath, binding.specifier);
+		if (!resolved) {
+			getLogger().debug(
+				`Cannot resolve import "${binding.specifier}" from ${scope.filePath}`,
+			);
+			return undefined;
+		}
+		const module = this.getModule(resolved);
+		return module ? this.getExport(module, binding.name) : undefined;
+	}
+
+	private evaluateIdentifier(name: string, scope: ModuleScope): unknown {
+		if (scope.values.has(name)) {
+			return scope.values.get(name);
+		}
+		if (scope.evaluating.has(name)) {
+			getLogger().warn(`Circular reference to "${name}" in ${scope.filePath}`);
+			return undefined;
+		}
+
+		scope.evaluating.add(name);
+		let value: unknown;
+		const declaration = scope.declarations.get(name);
+		const binding = scope.imports.get(name);
+		if (declaration) {
+			value = this.evaluate(declaration, scope);
+		} else if (binding) {
+			value = this.evaluateImport(binding, scope);
+		} else {
+			getLogger().debug(`Unresolved identifier "${name}" in ${scope.filePath}`);
+		}
+		scope.evaluating.delete(name);
+
+		scope.values.set(name, value);
+		return value;
+	}
+
+	private evaluate(expression: ts.Expression, scope: ModuleScope): unknown {
+		const expr = unwrapExpression(expression);
+
+		if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr)) {
+			return expr.text;
+		} else if (ts.isNumericLiteral(expr)) {
+			return Number(expr.text);
+		} else if (expr.kind === ts.SyntaxKind.TrueKeyword) {
+			return true;
+		} else if (expr.kind === ts.SyntaxKind.FalseKeyword) {
+			return false;
+		} else if (expr.kind === ts.SyntaxKind.NullKeyword) {
+			return null;
+		} else if (ts.isTemplateExpression(expr)) {
+			// Substitutions are filled in at runtime, so keep them as `${…}`
+			// placeholders that search treats as wildcards
+			let result = expr.head.text;
+			expr.templateSpans.forEach((span) => {
+				result += `\${${span.expression.getText()}}${span.literal.text}`;
+			});
+			return result;
+		} else if (ts.isObjectLiteralExpression(expr)) {
+			return this.evaluateObjectLiteral(expr, scope);
+		} else if (ts.isArrayLiteralExpression(expr)) {
+			return expr.elements.flatMap((element) => {
+				if (ts.isSpreadElement(element)) {
+					const spread = this.evaluate(element.expression, scope);
+					return Array.isArray(spread) ? spread : [];
+				}
+				return [this.evaluate(element, scope)];
+			});
+		} else if (ts.isIdentifier(expr)) {
+			return expr.text === "undefined"
+				? undefined
+				: this.evaluateIdentifier(expr.text, scope);
+		} else if (ts.isPropertyAccessExpression(expr)) {
+			return getProperty(this.evaluate(expr.expression, scope), expr.name.text);
+		} else if (ts.isElementAccessExpression(expr)) {
+			const name = this.evaluate(expr.argumentExpression, scope);
+			return typeof name === "string" || typeof name === "number"
+				? getProperty(this.evaluate(expr.expression, scope), String(name))
+				: undefined;
+		} else if (
+			ts.isBinaryExpression(expr) &&
+			expr.operatorToken.kind === ts.SyntaxKind.PlusToken
+		) {
+			const left = this.evaluate(expr.left, scope);
+			const right = this.evaluate(expr.right, scope);
+			return typeof left === "string" || typeof right === "string"
+				? `${left ?? ""}${right ?? ""}`
+				: undefined;
+		} else if (isObjectFreezeCall(expr)) {
+			return this.evaluate(expr.arguments[0], scope);
+		}
+
+		getLogger().debug(
+			`Skipping unsupported expression in ${scope.filePath}: ${expr.getText()}`,
+		);
+		return undefined;
+	}
+
+	private evaluateObjectLiteral(
+		expr: ts.ObjectLiteralExpression,
+		scope: ModuleScope,
+	): Record<string, unknown> {
+		const obj: Record<string, unknown> = {};
+		const locations = new Map<string, SourceLocation>();
+
+		for (const prop of expr.properties) {
+			if (ts.isPropertyAssignment(prop)) {
+				const key = this.propertyName(prop.name, scope);
+				if (key !== undefined) {
+					obj[key] = this.evaluate(prop.initializer, scope);
+					locations.set(key, nodeLocation(prop.name, scope.filePath));
+				}
+			} else if (ts.isShorthandPropertyAssignment(prop)) {
+				obj[prop.name.text] = this.evaluateIdentifier(prop.name.text, scope);
+				locations.set(prop.name.text, nodeLocation(prop.name, scope.filePath));
+			} else if (ts.isSpreadAssignment(prop)) {
+				const spread = this.evaluate(prop.expression, scope);
+				if (spread && typeof spread === "object") {
+					Object.assign(obj, spread);
+					// Spread properties keep pointing at their original definition
+					for (const key of Object.keys(spread)) {
+						const location = this.locate(spread, key);
+						if (location) {
+							locations.set(key, location);
+						} else {
+							locations.delete(key);
+						}
+					}
+				}
+			}
+		}
+
+		this.propertyLocations.set(obj, locations);
+		return obj;
+	}
+
+	private propertyName(
+		name: ts.PropertyName,
+		scope: ModuleScope,
+	): string | undefined {
+		if (
+			ts.isIdentifier(name) ||
+			ts.isStringLiteral(name) ||
+			ts.isNumericLiteral(name) ||
+			ts.isNoSubstitutionTemplateLiteral(name)
+		) {
+			return name.text;
+		}
+		if (ts.isComputedPropertyName(name)) {
+			const value = this.evaluate(name.expression, scope);
+			return typeof value === "string" || typeof value === "number"
+				? String(value)
+				: undefined;
+		}
+		return undefined;
+	}
+}
+
+/** Strips wrappers that do not change the runtime value */
+export function unwrapExpression(expression: ts.Expression): ts.Expression {
+	let expr = expression;
+	while (
+		ts.isParenthesizedExpression(expr) ||
+		ts.isAsExpression(expr) ||
+		ts.isSatisfiesExpression(expr) ||
+		ts.isTypeAssertionExpression(expr) ||
+		ts.isNonNullExpression(expr)
+	) {
+		expr = expr.expression;
+	}
+	return expr;
+}
+
+function nodeLocation(node: ts.Node, filePath: string): SourceLocation {
+	const sourceFile = node.getSourceFile();
+	const start = node.getStart(sourceFile);
+	const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+	const lineStarts = sourceFile.getLineStarts();
+	const lineEnd =
+		line + 1 < lineStarts.length
+			? lineStarts[line + 1]
+			: sourceFile.text.length;
+	return {
+		filePath,
+		line,
+		character,
+		length: node.getEnd() - start,
+		lineText: sourceFile.text
+			.slice(lineStarts[line], lineEnd)
+			.replace(/\r?\n$/, ""),
+	};
+}
+
+function isObjectFreezeCall(expr: ts.Expression): expr is ts.CallExpression {
+	return (
+		ts.isCallExpression(expr) &&
+		expr.arguments.length === 1 &&
+		ts.isPropertyAccessExpression(expr.expression) &&
+		ts.isIdentifier(expr.expression.expression) &&
+		expr.expression.expression.text === "Object" &&
+		expr.expression.name.text === "freeze"
+	);
+}
+
+function getProperty(target: unknown, name: string): unknown {
+	return target && typeof target === "object"
+		? (target as Record<string, unknown>)[name]
+		: undefined;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+	return (
+		(ts.canHaveModifiers(node) &&
+			ts.getModifiers(node)?.some((modifier) => modifier.kind === kind)) ??
+		false
+	);
+}
+
+function collectBindings(sourceFile: ts.SourceFile, scope: ModuleScope) {
+	for (const statement of sourceFile.statements) {
+		if (ts.isVariableStatement(statement)) {
+			const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+			for (const declaration of statement.declarationList.declarations) {
+				if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+					scope.declarations.set(
+						declaration.name.text,
+						declaration.initializer,
+					);
+					if (exported) {
+						scope.exports.set(declaration.name.text, declaration.name.text);
+					}
+				}
+			}
+		} else if (ts.isImportDeclaration(statement)) {
+			const clause = statement.importClause;
+			if (!clause || clause.isTypeOnly) {
+				continue;
+			}
+			const specifier = (statement.moduleSpecifier as ts.StringLiteral).text;
+			if (clause.name) {
+				scope.imports.set(clause.name.text, { specifier, name: "default" });
+			}
+			const bindings = clause.namedBindings;
+			if (bindings && ts.isNamespaceImport(bindings)) {
+				scope.imports.set(bindings.name.text, { specifier, name: "*" });
+			} else if (bindings) {
+				for (const element of bindings.elements) {
+					scope.imports.set(element.name.text, {
+						specifier,
+						name: (element.propertyName ?? element.name).text,
+					});
+				}
+			}
+		} else if (ts.isExportAssignment(statement)) {
+			// `export default …` and `export = …`
+			scope.defaultExport = statement.expression;
+		} else if (ts.isExportDeclaration(statement)) {
+			if (statement.isTypeOnly) {
+				continue;
+			}
+			const specifier =
+				statement.moduleSpecifier &&
+				(statement.moduleSpecifier as ts.StringLiteral).text;
+			const clause = statement.exportClause;
+			if (!clause) {
+				if (specifier) {
+					scope.starExports.push(specifier);
+				}
+			} else if (ts.isNamespaceExport(clause)) {
+				if (specifier) {
+					scope.reexports.set(clause.name.text, { specifier, name: "*" });
+				}
+			} else {
+				for (const element of clause.elements) {
+					const localName = (element.propertyName ?? element.name).text;
+					if (specifier) {
+						scope.reexports.set(element.name.text, {
+							specifier,
+							name: localName,
+						});
+					} else {
+						scope.exports.set(element.name.text, localName);
+					}
+				}
+			}
+		} else if (
+			ts.isExpressionStatement(statement) &&
+			ts.isBinaryExpression(statement.expression) &&
+			statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+			statement.expression.left.getText(sourceFile) === "module.exports"
+		) {
+			scope.defaultExport = statement.expression.right;
+		}
+	}
+}
+
+/** Resolves relative import specifiers; package imports are not followed */
+function resolveModule(
+	fromFile: string,
+	specifier: string,
+): string | undefined {
+	if (!specifier.startsWith(".") && !path.isAbsolute(specifier)) {
+		return undefined;
+	}
+
+	const base = path.resolve(path.dirname(fromFile), specifier);
+	// ESM-style TypeScript imports name the emitted `.js` file
+	const withoutJs = base.replace(/\.(m|c)?jsx?$/, "");
+	const candidates = [
+		base,
+		...RESOLVABLE_EXTENSIONS.map((extension) => withoutJs + extension),
+		...RESOLVABLE_EXTENSIONS.map((extension) =>
+			path.join(base, `index${extension}`),
+		),
+	];
+
+	return candidates.find(
+		(candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile(),
+	);
+}
@@ -0,0 +1,92 @@
+import type { SourceLocation } from "../sourceLocation";
+import type { CatalogueLoader } from "./types";
+
+export interface LogicalLine {
+	text: string;
+	/** Zero-based physical line the logical line starts on */
+	line: number;
+}
+
+/**
+ * Java-style `.properties` bundles: `key=value`, `key: value` or
+ * `key value`, with `#`/`!` comments and `\` line continuations.
+ */
+export const propertiesLoader: CatalogueLoader = {
+	extensions: [".properties"],
+	load(content, filePath) {
+		const entries: Record<string, string> = {};
+		const locations: Record<string, SourceLocation> = {};
+		const physicalLines = content.split(/\r?\n/);
+
+		for (const { text, line } of logicalLines(physicalLines)) {
+			const trimmed = text.replace(/^\s+/, "");
+			if (!trimmed || trimmed.startsWith("#") || trimmed.startsWith("!")) {
+				continue;
+			}
+
+			// The key ends at the first unescaped `=`, `:` or whitespace
+			const match = /^((?:[^\s:=\\]|\\.)*)\s*[:=]?\s*([\s\S]*)$/.exec(trimmed);
+			if (!match) {
+				continue;
+			}
+			const key = unescapeProperties(match[1]);
+			entries[key] = unescapeProperties(match[2]);
+			locations[key] = {
+				filePath,
+				line,
+				character: text.length - trimmed.length,
+				length: match[1].length,
+				lineText: physicalLines[line],
+			};
+		}
+
+		return { entries, locations };
+	},
+};
+
+/** Joins lines ending in an odd number of backslashes with the next line */
+export function logicalLines(physicalLines: string[]): LogicalLine[] {
+	const lines: LogicalLine[] = [];
+	let pending = "";
+	let start = 0;
+
+	physicalLines.forEach((line, index) => {
+		const continued = /(?:^|[^\\])(?:\\\\)*\\$/.test(line);
+		if (!pending) {
+			start = index;
+		}
+		// Leading whitespace of continuation lines is not part of the value
+		const text = pending ? line.replace(/^\s+/, "") : line;
+		if (continued) {
+			pending += text.slice(0, -1);
+		} else {
+			lines.push({ text: pending + text, line: start });
+			pending = "";
+		}
+	});
+	if (pending) {
+		lines.push({ text: pending, line: start });
+	}
+
+	return lines;
+}
+
+export function unescapeProperties(text: string): string {
+	return text.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, sequence: string) => {
+		if (sequence.length === 5) {
+			return String.fromCharCode(Number.parseInt(sequence.slice(1), 16));
+		}
+		switch (sequence) {
+			case "n":
+				return "\n";
+			case "t":
+				return "\t";
+			case "r":
+				return "\r";
+			case "f":
+				return "\f";
+			default:
+				return sequence;
+		}
+	});
+}
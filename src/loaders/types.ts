@@ -0,0 +1,18 @@
+import type { SourceLocation } from "../sourceLocation";
+
+/** Flattened translations, mapping each dot-separated key to its value */
+export interface LoadedTranslations {
+	entries: Record<string, string>;
+	/** Where each key is defined, for the keys the loader can locate */
+	locations: Record<string, SourceLocation>;
+}
+
+/** Parses the content of a translation file into flattened translations */
+export interface CatalogueLoader {
+	/** Lower-case file extensions handled by this loader, including the dot */
+	extensions: string[];
+	load(
+		content: string,
+		filePath: string,
+	): LoadedTranslations | Promise<LoadedTranslations>;
+}
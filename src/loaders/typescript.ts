@@ -0,0 +1,86 @@
+import * as ts from "typescript";
+import { getLogger } from "../logger";
+import { flattenWithLocations } from "./flatten";
+import { ModuleEvaluator } from "./moduleEvaluator";
+import type { CatalogueLoader } from "./types";
+
+// Robust parser for TypeScript/JavaScript object literals
+export function parseObjectLiteral(objectString: string): any {
+	// Strategy 1: Try JSON.parse with basic transformations
+	try {
+		const jsonString = objectString
+			.replace(/(\w+):/g, '"$1":') // Quote property names
+			.replace(/'/g, '"') // Replace single quotes with double quotes
+			.replace(/,(\s*[}\]])/g, "$1") // Remove trailing commas before } or ]
+			.replace(/,\s*}/g, "}") // Remove trailing commas before closing braces
+			.replace(/,\s*]/g, "]"); // Remove trailing commas before closing brackets
+
+		return JSON.parse(jsonString);
+	} catch (error) {
+		getLogger().debug("JSON.parse failed, trying enhanced parsing...");
+	}
+
+	// Strategy 2: TypeScript AST-based parsing (most robust)
+	try {
+		// Create a TypeScript source file
+		const sourceFile = ts.createSourceFile(
+			"translation.ts",
+			`const translations = ${objectString};`,
+			ts.ScriptTarget.Latest,
+			true,
+		);
+
+		// Find the variable declaration
+		const variableStatement = sourceFile.statements.find(
+			(stmt): stmt is ts.VariableStatement => ts.isVariableStatement(stmt),
+		);
+
+		if (!variableStatement) {
+			throw new Error("No variable statement found");
+		}
+
+		const variableDeclaration =
+			variableStatement.declarationList.declarations[0];
+		if (!variableDeclaration || !variableDeclaration.initializer) {
+			throw new Error("No variable initializer found");
+		}
+
+		// Convert the AST back to a JavaScript object
+		const result = new ModuleEvaluator().evaluateExpression(
+			variableDeclaration.initializer,
+			sourceFile.fileName,
+		);
+		if (!result || typeof result !== "object") {
+			throw new Error("Variable initializer is not an object literal");
+		}
+
+		return result;
+	} catch (error) {
+		getLogger().debug(
+			"TypeScript AST parsing failed, trying enhanced regex...",
+		);
+	}
+
+	getLogger().error("Failed to parse translation object");
+	return {};
+}
+
+/**
+ * Evaluates the default export of a TypeScript/JavaScript catalogue,
+ * following imports of sibling files, identifier references and spreads.
+ */
+export const typescriptLoader: CatalogueLoader = {
+	extensions: [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"],
+	load(content, filePath) {
+		const evaluator = new ModuleEvaluator();
+		const translationObj = evaluator.evaluateDefaultExport(filePath, content);
+
+		if (!translationObj || typeof translationObj !== "object") {
+			throw new Error("Translation file must export a default object");
+		}
+
+		return flattenWithLocations(translationObj, (parent, property) =>
+			evaluator.locate(parent, property),
+		);
+	},
+};
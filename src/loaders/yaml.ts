@@ -0,0 +1,49 @@
+import { isMap, isScalar, type Node, parseDocument } from "yaml";
+import { LineIndex, type SourceLocation } from "../sourceLocation";
+import { flatten } from "./flatten";
+import type { CatalogueLoader } from "./types";
+
+export const yamlLoader: CatalogueLoader = {
+	extensions: [".yaml", ".yml"],
+	load(content, filePath) {
+		const document = parseDocument(content);
+		if (document.errors.length > 0) {
+			throw document.errors[0];
+		}
+		const translationObj = document.toJS();
+
+		if (!translationObj || typeof translationObj !== "object") {
+			throw new Error("YAML translation file must contain a mapping");
+		}
+
+		const entries = flatten(translationObj);
+		const lines = new LineIndex(content);
+		const locations: Record<string, SourceLocation> = {};
+
+		const visit = (node: Node | null | undefined, prefix: string) => {
+			if (!isMap(node)) {
+				return;
+			}
+			for (const pair of node.items) {
+				if (!isScalar(pair.key)) {
+					continue;
+				}
+				const key = prefix
+					? `${prefix}.${String(pair.key.value)}`
+					: String(pair.key.value);
+				const range = pair.key.range;
+				if (key in entries && range) {
+					locations[key] = lines.locate(
+						filePath,
+						range[0],
+						range[1] - range[0],
+					);
+				}
+				visit(pair.value as Node | null, key);
+			}
+		};
+		visit(document.contents, "");
+
+		return { entries, locations };
+	},
+};
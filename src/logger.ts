@@ -0,0 +1,91 @@
+// Logger utility, shared by the extension and the command line interface
+export abstract class Logger {
+	private logLevel: string = "info";
+
+	/** Writes a formatted line, e.g. to an output channel or to stderr */
+	protected abstract appendLine(line: string): void;
+
+	setLogLevel(level: string) {
+		this.logLevel = level;
+	}
+
+	private shouldLog(level: string): boolean {
+		const levels = { error: 0, warn: 1, info: 2, debug: 3 };
+		return (
+			levels[level as keyof typeof levels] <=
+			levels[this.logLevel as keyof typeof levels]
+		);
+	}
+
+	private formatMessage(
+		level: string,
+		message: string,
+		...args: any[]
+	): string {
+		const timestamp = new Date().toISOString();
+		const formattedArgs =
+			args.length > 0
+				? " " +
+					args
+						.map((arg) =>
+							typeof arg === "object"
+								? JSON.stringify(arg, null, 2)
+								: String(arg),
+						)
+						.join(" ")
+				: "";
+		return `[${timestamp}] [${level.toUpperCase()}] ${message}${formattedArgs}`;
+	}
+
+	debug(message: string, ...args: any[]) {
+		if (this.shouldLog("debug")) {
+			this.appendLine(this.formatMessage("debug", message, ...args));
+		}
+	}
+
+	info(message: string, ...args: any[]) {
+		if (this.shouldLog("info")) {
+			this.appendLine(this.formatMessage("info", message, ...args));
+		}
+	}
+
+	warn(message: string, ...args: any[]) {
+		if (this.shouldLog("warn")) {
+			this.appendLine(this.formatMessage("warn", message, ...args));
+		}
+	}
+
+	error(message: string, error?: Error | any) {
+		if (this.shouldLog("error")) {
+			let errorDetails = "";
+			if (error instanceof Error) {
+				errorDetails = `\n${error.message}\n${error.stack}`;
+			} else if (error) {
+				errorDetails = `\n${JSON.stringify(error, null, 2)}`;
+			}
+			this.appendLine(this.formatMessage("error", message + errorDetails));
+		}
+	}
+
+	show() {}
+}
+
+// Global logger instance
+let logger: Logger | undefined;
+
+/** Sets the logger returned by `getLogger`, e.g. an output channel */
+export function setLogger(instance: Logger): Logger {
+	logger = instance;
+	return logger;
+}
+
+// Logger singleton that's always available
+export const getLogger = () =>
+	logger || {
+		debug: () => {},
+		info: () => {},
+		warn: () => {},
+		error: () => {},
+		show: () => {},
+		setLogLevel: () => {},
+	};
@@ -0,0 +1,85 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getLogger } from "./logger";
+
+/** Separates a namespace from the key, as in i18next's `checkout:title` */
+export const NAMESPACE_SEPARATOR = ":";
+
+/**
+ * Namespaces of discovered packages, keyed by package name or by package
+ * directory relative to the workspace folder.
+ */
+export type NamespaceMapping = Record<string, string>;
+
+/** A package holding a discovered catalogue */
+export interface PackageInfo {
+	dir: string;
+	/** `name` of the package's package.json, if it has one */
+	name?: string;
+}
+
+export function qualifyKey(namespace: string | undefined, key: string): string {
+	return namespace ? `${namespace}${NAMESPACE_SEPARATOR}${key}` : key;
+}
+
+/** Key within its namespace, e.g. `title` for `checkout:title` */
+export function unqualifyKey(
+	namespace: string | undefined,
+	key: string,
+): string {
+	const prefix = qualifyKey(namespace, "");
+	return namespace && key.startsWith(prefix) ? key.slice(prefix.length) : key;
+}
+
+/**
+ * The package whose package.json is nearest above `filePath`, without leaving
+ * `rootDir`. Files outside any package belong to their own directory.
+ */
+export function findPackage(filePath: string, rootDir: string): PackageInfo {
+	let dir = path.dirname(filePath);
+	while (isWithin(dir, rootDir)) {
+		const manifest = path.join(dir, "package.json");
+		if (fs.existsSync(manifest)) {
+			return { dir, name: readPackageName(manifest) };
+		}
+		if (dir === rootDir) {
+			break;
+		}
+		dir = path.dirname(dir);
+	}
+	return { dir: path.dirname(filePath) };
+}
+
+/**
+ * Namespace of a package: its entry in the mapping, by directory or by name,
+ * else its name without the npm scope, else its directory name.
+ */
+export function packageNamespace(
+	pkg: PackageInfo,
+	rootDir: string,
+	mapping: NamespaceMapping = {},
+): string {
+	const relativeDir = path.relative(rootDir, pkg.dir).split(path.sep).join("/");
+	return (
+		mapping[relativeDir] ??
+		mapping[`./${relativeDir}`] ??
+		(pkg.name && mapping[pkg.name]) ??
+		pkg.name?.replace(/^@[^/]+\//, "") ??
+		path.basename(pkg.dir)
+	);
+}
+
+function readPackageName(manifest: string): string | undefined {
+	try {
+		const { name } = JSON.parse(fs.readFileSync(manifest, "utf-8"));
+		return typeof name === "string" && name ? name : undefined;
+	} catch (error) {
+		getLogger().debug(`Could not read ${manifest}:`, error);
+		return undefined;
+	}
+}
+
+function isWithin(dir: string, rootDir: string): boolean {
+	const relative = path.relative(rootDir, dir);
+	return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
@@ -0,0 +1,24 @@
+import * as vscode from "vscode";
+import { Logger, setLogger } from "./logger";
+
+/** Logs to the "i18n-search" output channel */
+export class OutputChannelLogger extends Logger {
+	private outputChannel: vscode.OutputChannel;
+
+	constructor() {
+		super();
+		this.outputChannel = vscode.window.createOutputChannel("i18n-search");
+	}
+
+	protected appendLine(line: string) {
+		this.outputChannel.appendLine(line);
+	}
+
+	show() {
+		this.outputChannel.show();
+	}
+}
+
+export function createLogger(): Logger {
+	return setLogger(new OutputChannelLogger());
+}
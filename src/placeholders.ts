@@ -0,0 +1,118 @@
+/** A run of literal text, or a placeholder filled in at runtime */
+export interface MessagePart {
+	text: string;
+	placeholder: boolean;
+}
+
+/**
+ * printf-style placeholders such as `%s`, `%d`, `%1$s` and `%.2f`. The space
+ * flag is left out, so that "20% off" stays literal text.
+ */
+const PRINTF_PATTERN = /^%(?:\d+\$)?[-+0#]*\d*(?:\.\d+)?[sdifuxXeEgGcoq@]/;
+
+/**
+ * Splits a translated value into literal text and placeholders: i18next
+ * `{{name}}`, ICU `{name}` and `{count, plural, …}` (with nested braces),
+ * template `${name}` and printf `%s`/`%d`.
+ */
+export function splitPlaceholders(value: string): MessagePart[] {
+	const parts: MessagePart[] = [];
+	let literal = "";
+	const pushLiteral = () => {
+		if (literal) {
+			parts.push({ text: literal, placeholder: false });
+			literal = "";
+		}
+	};
+
+	let index = 0;
+	while (index < value.length) {
+		const char = value[index];
+		let end = -1;
+		if (char === "{" || (char === "$" && value[index + 1] === "{")) {
+			end = matchingBrace(value, char === "$" ? index + 1 : index);
+		} else if (char === "%") {
+			if (value[index + 1] === "%") {
+				// `%%` is a literal percent sign
+				literal += "%";
+				index += 2;
+				continue;
+			}
+			const match = PRINTF_PATTERN.exec(value.slice(index));
+			end = match ? index + match[0].length : -1;
+		}
+
+		if (end === -1) {
+			literal += char;
+			index++;
+		} else {
+			pushLiteral();
+			parts.push({ text: value.slice(index, end), placeholder: true });
+			index = end;
+		}
+	}
+	pushLiteral();
+	return parts;
+}
+
+/** Offset after the brace closing the one at `start`, or -1 */
+function matchingBrace(value: string, start: number): number {
+	const close = closingBrace(value, start);
+	// An empty `{}` is literal text
+	return close - start > 1 ? close + 1 : -1;
+}
+
+/** Offset of the brace closing the one at `start`, or -1 */
+function closingBrace(value: string, start: number): number {
+	let depth = 0;
+	for (let i = start; i < value.length; i++) {
+		if (value[i] === "{") {
+			depth++;
+		} else if (value[i] === "}") {
+			depth--;
+			if (depth === 0) {
+				return i;
+			}
+		}
+	}
+	return -1;
+}
+
+/** The messages an ICU `plural`, `selectordinal` or `select` chooses from */
+export interface IcuChoice {
+	/** Whether `#` in the messages stands for the number */
+	plural: boolean;
+	messages: string[];
+}
+
+const ICU_CHOICE_PATTERN =
+	/^\{\s*[^\s,{}]+\s*,\s*(plural|selectordinal|select)\s*,/;
+
+/**
+ * Messages of a placeholder such as `{count, plural, one {# item} other
+ * {# items}}`, or undefined for other placeholders.
+ */
+export function icuChoice(placeholder: string): IcuChoice | undefined {
+	const match = ICU_CHOICE_PATTERN.exec(placeholder);
+	if (!match) {
+		return undefined;
+	}
+	const messages: string[] = [];
+	// Selectors such as `one`, `=0` and `offset:1` sit between the messages
+	let open = placeholder.indexOf("{", match[0].length);
+	while (open !== -1) {
+		const close = closingBrace(placeholder, open);
+		if (close === -1) {
+			return undefined;
+		}
+		messages.push(placeholder.slice(open + 1, close));
+		open = placeholder.indexOf("{", close);
+	}
+	return messages.length > 0
+		? { plural: match[1] !== "select", messages }
+		: undefined;
+}
+
+export function hasPlaceholders(value: string): boolean {
+	return splitPlaceholders(value).some((part) => part.placeholder);
+}
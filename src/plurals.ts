@@ -0,0 +1,21 @@
+/**
+ * Suffixes of i18next plural keys: CLDR categories, optionally ordinal, and
+ * the `_plural` suffix of the older JSON v3 format.
+ */
+const PLURAL_SUFFIX = /_(?:ordinal_)?(?:zero|one|two|few|many|other)$|_plural$/;
+
+/** Key used in code for a plural form, e.g. `items` for `items_other` */
+export function pluralBaseKey(key: string): string | undefined {
+	const match = PLURAL_SUFFIX.exec(key);
+	return match && match.index > 0 ? key.slice(0, match.index) : undefined;
+}
+
+/** Keys of the plural forms of `key` defined in `entries` */
+export function pluralForms(
+	entries: Record<string, string>,
+	key: string,
+): string[] {
+	return Object.keys(entries).filter(
+		(candidate) => pluralBaseKey(candidate) === key,
+	);
+}
@@ -0,0 +1,66 @@
+import * as fs from "fs";
+import * as path from "path";
+import { IgnoreMatcher } from "./gitignore";
+import { globToRegExp, matchesAnyGlob, toPosixPath } from "./glob";
+import { getLogger } from "./logger";
+
+export interface FindFilesOptions {
+	/** Globs of files and directories to skip */
+	exclude?: string[];
+	/** Honour `.gitignore` files */
+	useIgnoreFiles?: boolean;
+}
+
+/**
+ * Lists the files below `rootDir` whose relative path matches a glob, like
+ * the workspace file search of the extension. Symbolic links are skipped.
+ */
+export async function findProjectFiles(
+	rootDir: string,
+	include: string,
+	options: FindFilesOptions = {},
+): Promise<string[]> {
+	const includePattern = globToRegExp(include);
+	const excludePatterns = (options.exclude ?? []).map(globToRegExp);
+	const ignoreMatcher = new IgnoreMatcher();
+	const files: string[] = [];
+
+	const visit = async (dir: string) => {
+		let entries: fs.Dirent[];
+		try {
+			entries = await fs.promises.readdir(dir, { withFileTypes: true });
+		} catch (error) {
+			getLogger().debug(`Could not read ${dir}:`, error);
+			return;
+		}
+		// Parent directories are visited first, so nested files take precedence
+		if (
+			options.useIgnoreFiles &&
+			entries.some((entry) => entry.isFile() && entry.name === ".gitignore")
+		) {
+			ignoreMatcher.add(
+				dir,
+				await fs.promises.readFile(path.join(dir, ".gitignore"), "utf-8"),
+			);
+		}
+
+		for (const entry of entries) {
+			const filePath = path.join(dir, entry.name);
+			const relativePath = toPosixPath(path.relative(rootDir, filePath));
+			if (
+				matchesAnyGlob(relativePath, excludePatterns) ||
+				ignoreMatcher.ignores(filePath)
+			) {
+				continue;
+			}
+			if (entry.isDirectory()) {
+				await visit(filePath);
+			} else if (entry.isFile() && includePattern.test(relativePath)) {
+				files.push(filePath);
+			}
+		}
+	};
+
+	await visit(path.resolve(rootDir));
+	return files.sort();
+}
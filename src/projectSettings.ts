@@ -0,0 +1,102 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import type { LocaleFilepathsSetting } from "./catalogue";
+import type { NamespaceMapping } from "./namespaces";
+
+/** The extension's settings of a project, read without VS Code */
+export interface ProjectSettings {
+	translationFilepath: string;
+	localeFilepaths: LocaleFilepathsSetting;
+	catalogueGlob: string;
+	namespaces: NamespaceMapping;
+	usagePresets: string[];
+	usagePatterns: string[];
+	usageFileGlob: string;
+	/** Enabled globs of `files.exclude` */
+	filesExclude: string[];
+	/** Enabled globs of `search.exclude` */
+	searchExclude: string[];
+	/** `search.useIgnoreFiles`: honour `.gitignore` files */
+	useIgnoreFiles: boolean;
+}
+
+// Defaults of VS Code's own settings that the extension relies on
+const DEFAULT_FILES_EXCLUDE = {
+	"**/.git": true,
+	"**/.svn": true,
+	"**/.hg": true,
+	"**/CVS": true,
+	"**/.DS_Store": true,
+	"**/Thumbs.db": true,
+};
+const DEFAULT_SEARCH_EXCLUDE = {
+	"**/node_modules": true,
+	"**/bower_components": true,
+	"**/*.code-search": true,
+};
+
+/** The settings file VS Code reads for a folder */
+export function defaultSettingsFile(rootDir: string): string {
+	return path.join(rootDir, ".vscode", "settings.json");
+}
+
+/**
+ * Reads the settings of a project from `.vscode/settings.json`, or from the
+ * `settings` of a `.code-workspace` file. Settings that are not set take the
+ * defaults the extension contributes, so both see the same configuration.
+ */
+export function readProjectSettings(settingsFile: string): ProjectSettings {
+	const settings = fs.existsSync(settingsFile)
+		? parseSettingsFile(settingsFile)
+		: {};
+	const get = <T>(name: string): T =>
+		(settings[`i18nSearch.${name}`] ?? contributedDefault(name)) as T;
+
+	return {
+		translationFilepath: get("translationFilepath"),
+		localeFilepaths: get("localeFilepaths"),
+		catalogueGlob: get<string>("catalogueGlob").trim(),
+		namespaces: get("namespaces"),
+		usagePresets: get("usagePresets"),
+		usagePatterns: get("usagePatterns"),
+		usageFileGlob: get("usageFileGlob"),
+		// Object settings are merged with their defaults, as VS Code does
+		filesExclude: enabledGlobs({
+			...DEFAULT_FILES_EXCLUDE,
+			...(settings["files.exclude"] as object),
+		}),
+		searchExclude: enabledGlobs({
+			...DEFAULT_SEARCH_EXCLUDE,
+			...(settings["search.exclude"] as object),
+		}),
+		useIgnoreFiles: settings["search.useIgnoreFiles"] !== false,
+	};
+}
+
+function parseSettingsFile(settingsFile: string): Record<string, unknown> {
+	// Settings files are JSON with comments and trailing commas
+	const { config, error } = ts.parseConfigFileTextToJson(
+		settingsFile,
+		fs.readFileSync(settingsFile, "utf-8"),
+	);
+	if (error) {
+		throw new Error(
+			`Invalid settings file ${settingsFile}: ${ts.flattenDiagnosticMessageText(error.messageText, "\n")}`,
+		);
+	}
+	return (
+		(settingsFile.endsWith(".code-workspace") ? config?.settings : config) ?? {}
+	);
+}
+
+function contributedDefault(name: string): unknown {
+	const { properties } = require("../package.json").contributes.configuration;
+	return properties[`i18nSearch.${name}`]?.default;
+}
+
+function enabledGlobs(globs: Record<string, unknown>): string[] {
+	return Object.entries(globs)
+		.filter(([, enabled]) => enabled === true)
+		.map(([glob]) => glob);
+}
@@ -0,0 +1,155 @@
+import * as vscode from "vscode";
+import { getLogger } from "./logger";
+import {
+	folderIncludePattern,
+	getLastSearchViewQuery,
+	keyAwareSearchPattern,
+	openSearchView,
+} from "./searchView";
+import type { TranslationStore } from "./translationStore";
+
+/**
+ * Registers the commands that combine translated text and translation keys
+ * into a single Search view query.
+ */
+export function registerSearchCommands(
+	context: vscode.ExtensionContext,
+	store: TranslationStore,
+) {
+	// Rerun the current search so it also finds the keys of matching values
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			"i18n-search.enhanceCurrentSearch",
+			async (query?: string) => {
+				if (!query) {
+					query = await vscode.window.showInputBox({
+						prompt: "Enter the search text to enhance with translation keys",
+						placeHolder: "e.g., Hello World",
+						value: currentSearchText(),
+					});
+					if (!query) {
+						return;
+					}
+				}
+
+				const keys = findKeysForText(store, query);
+				getLogger().debug(`Keys matching "${query}":`, keys);
+				if (keys.length === 0) {
+					vscode.window.showInformationMessage(
+						`No translation keys found for: ${query}`,
+					);
+				}
+
+				await openSearchView({
+					query: keyAwareSearchPattern(query, keys),
+					isRegex: true,
+					isCaseSensitive: true,
+				});
+			},
+		),
+	);
+
+	// Pick a key, then search for its usages (and value, in mixed search)
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			"i18n-search.searchTranslationKeys",
+			async () => {
+				const multiRoot = store.folders.length > 1;
+				const items = store.folders.flatMap((folder) =>
+					Object.entries(folder.referenceEntries).map(([key, value]) => ({
+						label: key,
+						description: multiRoot ? folder.folder.name : undefined,
+						detail: value,
+						key,
+						value,
+						folder: folder.folder,
+					})),
+				);
+
+				const picked = await vscode.window.showQuickPick(items, {
+					title: "Search Translation Keys",
+					placeHolder: "Select a translation key to search for",
+					matchOnDetail: true,
+				});
+				if (!picked) {
+					return;
+				}
+
+				const enableMixedSearch = vscode.workspace
+					.getConfiguration("i18nSearch")
+					.get<boolean>("enableMixedSearch", true);
+				await openSearchView({
+					query: keyAwareSearchPattern(enableMixedSearch ? picked.value : "", [
+						picked.key,
+					]),
+					isRegex: true,
+					isCaseSensitive: true,
+					filesToInclude: folderIncludePattern(picked.folder),
+				});
+			},
+		),
+	);
+
+	// Pick a translated value, then search for it and all of its keys
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			"i18n-search.searchWithTranslationKeys",
+			async () => {
+				const items = store.locales.flatMap((catalogue) =>
+					Object.entries(catalogue.map).map(([value, keys]) => ({
+						label: value,
+						description: catalogue.locale,
+						detail: keys.join(", "),
+						value,
+						keys,
+					})),
+				);
+
+				const picked = await vscode.window.showQuickPick(items, {
+					title: "Search with Translation Keys",
+					placeHolder: "Select a translated value to search for",
+					matchOnDetail: true,
+				});
+				if (!picked) {
+					return;
+				}
+
+				await openSearchView({
+					query: keyAwareSearchPattern(picked.value, picked.keys),
+					isRegex: true,
+					isCaseSensitive: true,
+				});
+			},
+		),
+	);
+}
+
+/** Keys whose value in any locale contains `text`, ignoring case */
+function findKeysForText(store: TranslationStore, text: string): string[] {
+	const query = text.toLowerCase();
+	const keys = new Set<string>();
+	for (const catalogue of store.locales) {
+		for (const [value, valueKeys] of Object.entries(catalogue.map)) {
+			if (value.toLowerCase().includes(query)) {
+				valueKeys.forEach((key) => keys.add(key));
+			}
+		}
+	}
+	return [...keys];
+}
+
+/**
+ * Best guess at the text being searched for: the last query this extension
+ * ran in the Search view, or else the editor selection.
+ */
+function currentSearchText(): string | undefined {
+	const lastQuery = getLastSearchViewQuery();
+	if (lastQuery && !lastQuery.isRegex) {
+		return lastQuery.query;
+	}
+	const editor = vscode.window.activeTextEditor;
+	if (editor && !editor.selection.isEmpty) {
+		return editor.document.getText(editor.selection);
+	}
+	return undefined;
+}
@@ -0,0 +1,143 @@
+import type * as vscode from "vscode";
+import type { SearchOptions } from "./translationSearch";
+
+/** Recent searches kept, most recent first */
+const MAX_RECENT_SEARCHES = 50;
+
+const LAST_SEARCH_KEY = "i18nSearch.lastSearch";
+const RECENT_SEARCHES_KEY = "i18nSearch.recentSearches";
+const PINNED_KEYS_KEY = "i18nSearch.pinnedKeys";
+const SAVED_QUERIES_KEY = "i18nSearch.savedQueries";
+
+// The last search and its results used to be shared by every workspace
+const LEGACY_SEARCH_TERM_KEY = "i18nSearch.lastSearchTerm";
+const LEGACY_SEARCH_OPTIONS_KEY = "i18nSearch.searchOptions";
+const LEGACY_KEYS = [
+	LEGACY_SEARCH_TERM_KEY,
+	"i18nSearch.lastSearchResults",
+	LEGACY_SEARCH_OPTIONS_KEY,
+];
+
+/** The search shown when the view opens again, without its results */
+export interface LastSearch {
+	searchText: string;
+	options: Partial<SearchOptions>;
+}
+
+/** A key pinned to the top of the results */
+export interface PinnedKey {
+	key: string;
+	folderUri: string;
+}
+
+/** A search kept under a name, with the options it ran with */
+export interface SavedQuery {
+	name: string;
+	searchText: string;
+	options: Partial<SearchOptions>;
+}
+
+/**
+ * Searches and pins of the search view, kept per workspace. Only queries are
+ * stored; their results are found again against the current catalogues.
+ */
+export class SearchHistory {
+	constructor(private state: vscode.Memento) {}
+
+	get lastSearch(): LastSearch {
+		return this.state.get<LastSearch>(LAST_SEARCH_KEY, {
+			searchText: "",
+			options: {},
+		});
+	}
+
+	/**
+	 * Moves the last search once shared by every workspace into this one,
+	 * unless it has a last search of its own, and clears the shared keys
+	 */
+	migrateLegacySearch(globalState: vscode.Memento) {
+		const keys = globalState.keys();
+		if (!LEGACY_KEYS.some((key) => keys.includes(key))) {
+			return Promise.resolve();
+		}
+		const updates: Thenable<void>[] = [];
+		if (this.state.get<LastSearch>(LAST_SEARCH_KEY) === undefined) {
+			updates.push(
+				this.setLastSearch(
+					globalState.get<string>(LEGACY_SEARCH_TERM_KEY, ""),
+					globalState.get<Partial<SearchOptions>>(
+						LEGACY_SEARCH_OPTIONS_KEY,
+						{},
+					),
+				),
+			);
+		}
+		for (const key of LEGACY_KEYS) {
+			updates.push(globalState.update(key, undefined));
+		}
+		return Promise.all(updates);
+	}
+
+	setLastSearch(searchText: string, options: Partial<SearchOptions>) {
+		return this.state.update(LAST_SEARCH_KEY, { searchText, options });
+	}
+
+	get recentSearches(): string[] {
+		return this.state.get<string[]>(RECENT_SEARCHES_KEY, []);
+	}
+
+	/** Moves a search to the top of the recent searches */
+	addRecentSearch(searchText: string) {
+		if (!searchText.trim()) {
+			return Promise.resolve();
+		}
+		return this.state.update(
+			RECENT_SEARCHES_KEY,
+			[
+				searchText,
+				...this.recentSearches.filter((recent) => recent !== searchText),
+			].slice(0, MAX_RECENT_SEARCHES),
+		);
+	}
+
+	clearRecentSearches() {
+		return this.state.update(RECENT_SEARCHES_KEY, undefined);
+	}
+
+	get pinnedKeys(): PinnedKey[] {
+		return this.state.get<PinnedKey[]>(PINNED_KEYS_KEY, []);
+	}
+
+	/** Pins a key, or unpins it if it was pinned */
+	togglePin(key: string, folderUri: string) {
+		const pinned = this.pinnedKeys;
+		const unpinned = pinned.filter(
+			(pin) => pin.key !== key || pin.folderUri !== folderUri,
+		);
+		return this.state.update(
+			PINNED_KEYS_KEY,
+			unpinned.length < pinned.length
+				? unpinned
+				: [...pinned, { key, folderUri }],
+		);
+	}
+
+	get savedQueries(): SavedQuery[] {
+		return this.state.get<SavedQuery[]>(SAVED_QUERIES_KEY, []);
+	}
+
+	/** Saves a query, replacing the one of the same name */
+	saveQuery(query: SavedQuery) {
+		return this.state.update(SAVED_QUERIES_KEY, [
+			...this.savedQueries.filter((saved) => saved.name !== query.name),
+			query,
+		]);
+	}
+
+	deleteQuery(name: string) {
+		return this.state.update(
+			SAVED_QUERIES_KEY,
+			this.savedQueries.filter((saved) => saved.name !== name),
+		);
+	}
+}
@@ -0,0 +1,96 @@
+import * as vscode from "vscode";
+import { getUsagePatterns } from "./config";
+import { escapeRegExp, keySearchPattern } from "./usagePatterns";
+
+export interface SearchViewQuery {
+	query: string;
+	isRegex: boolean;
+	isCaseSensitive: boolean;
+	filesToInclude?: string;
+}
+
+// VS Code does not expose the Search view's query, so remember the last
+// query this extension ran there
+let lastQuery: SearchViewQuery | undefined;
+
+export function getLastSearchViewQuery(): SearchViewQuery | undefined {
+	return lastQuery;
+}
+
+/** Runs a query in the Search view */
+export async function openSearchView(query: SearchViewQuery) {
+	lastQuery = query;
+	await vscode.commands.executeCommand("workbench.action.findInFiles", {
+		...query,
+		triggerSearch: true,
+	});
+}
+
+/**
+ * Opens the Search view with a regex matching every usage pattern of a key,
+ * limited to one workspace folder when given.
+ */
+export async function searchKeyInFiles(
+	key: string,
+	folder?: vscode.WorkspaceFolder,
+) {
+	await openSearchView(keyUsageQuery(key, folder));
+}
+
+/** Opens a new Search Editor listing every usage of a key */
+export async function searchKeyInEditor(
+	key: string,
+	folder?: vscode.WorkspaceFolder,
+) {
+	await vscode.commands.executeCommand("search.action.openNewEditor", {
+		...keyUsageQuery(key, folder),
+		triggerSearch: true,
+	});
+}
+
+function keyUsageQuery(
+	key: string,
+	folder?: vscode.WorkspaceFolder,
+): SearchViewQuery {
+	return {
+		query: keySearchPattern(getUsagePatterns(), key),
+		isRegex: true,
+		isCaseSensitive: true,
+		filesToInclude: folderIncludePattern(folder),
+	};
+}
+
+/** `./name` limits a search to a workspace folder in multi-root workspaces */
+export function folderIncludePattern(
+	folder?: vscode.WorkspaceFolder,
+): string | undefined {
+	return folder && (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+		? `./${folder.name}`
+		: undefined;
+}
+
+/**
+ * Regex source matching `text` itself (case-insensitively) as well as the
+ * usages of every given key, for searching translated text and its keys
+ * in one go.
+ */
+export function keyAwareSearchPattern(text: string, keys: string[]): string {
+	const patterns = getUsagePatterns();
+	const alternatives = text ? [caseInsensitivePattern(text)] : [];
+	for (const key of keys) {
+		alternatives.push(keySearchPattern(patterns, key));
+	}
+	return alternatives.join("|");
+}
+
+// The Search view applies case sensitivity to the whole query, so the text
+// alternative spells out both cases of each letter instead
+function caseInsensitivePattern(text: string): string {
+	return Array.from(text)
+		.map((char) => {
+			const lower = char.toLowerCase();
+			const upper = char.toUpperCase();
+			return lower !== upper ? `[${lower}${upper}]` : escapeRegExp(char);
+		})
+		.join("");
+}
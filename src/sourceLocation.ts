@@ -0,0 +1,55 @@
+/** A position in a source file, zero-based like VS Code positions */
+export interface SourceLocation {
+	filePath: string;
+	line: number;
+	character: number;
+	length: number;
+	/** Full text of the line, used for previews */
+	lineText: string;
+}
+
+/** Converts offsets into line/character positions */
+export class LineIndex {
+	private starts: number[] = [0];
+
+	constructor(private text: string) {
+		for (let i = 0; i < text.length; i++) {
+			if (text[i] === "\n") {
+				this.starts.push(i + 1);
+			}
+		}
+	}
+
+	lineAt(offset: number): number {
+		let low = 0;
+		let high = this.starts.length - 1;
+		while (low < high) {
+			const mid = (low + high + 1) >> 1;
+			if (this.starts[mid] <= offset) {
+				low = mid;
+			} else {
+				high = mid - 1;
+			}
+		}
+		return low;
+	}
+
+	/** Offset of the first character of a line, or the end of the text */
+	lineStart(line: number): number {
+		return line < this.starts.length ? this.starts[line] : this.text.length;
+	}
+
+	locate(filePath: string, offset: number, length: number): SourceLocation {
+		const line = this.lineAt(offset);
+		const start = this.starts[line];
+		const end =
+			line + 1 < this.starts.length ? this.starts[line + 1] : this.text.length;
+		return {
+			filePath,
+			line,
+			character: offset - start,
+			length,
+			lineText: this.text.slice(start, end).replace(/\r?\n$/, ""),
+		};
+	}
+}
@@ -0,0 +1,292 @@
+import * as assert from "assert";
+import { type EntryEdit, entryEditsChange } from "../catalogueWriter";
+
+/** The file content after applying the edits */
+function edit(content: string, filePath: string, ...edits: EntryEdit[]) {
+	const change = entryEditsChange(content, filePath, edits);
+	return (
+		content.slice(0, change.offset) +
+		change.text +
+		content.slice(change.offset + change.length)
+	);
+}
+
+suite("catalogueWriter: JSON", () => {
+	const content = '{\n\t"common": {\n\t\t"hello": "Hello"\n\t}\n}\n';
+
+	test("adds keys to existing and new objects", () => {
+		assert.strictEqual(
+			edit(content, "en.json", {
+				type: "add",
+				key: "common.bye",
+				value: "Bye",
+			}),
+			'{\n\t"common": {\n\t\t"hello": "Hello",\n\t\t"bye": "Bye"\n\t}\n}\n',
+		);
+		assert.strictEqual(
+			edit(content, "en.json", {
+				type: "add",
+				key: "home.title",
+				value: "Home",
+			}),
+			'{\n\t"common": {\n\t\t"hello": "Hello"\n\t},\n\t"home": {\n\t\t"title": "Home"\n\t}\n}\n',
+		);
+	});
+
+	test("updates a value with escaping", () => {
+		assert.strictEqual(
+			edit(content, "en.json", {
+				type: "update",
+				key: "common.hello",
+				value: 'Hi "you"',
+			}),
+			'{\n\t"common": {\n\t\t"hello": "Hi \\"you\\""\n\t}\n}\n',
+		);
+	});
+
+	test("renames in place and moves to another object", () => {
+		assert.strictEqual(
+			edit(content, "en.json", {
+				type: "rename",
+				key: "common.hello",
+				newKey: "common.hi",
+			}),
+			'{\n\t"common": {\n\t\t"hi": "Hello"\n\t}\n}\n',
+		);
+		assert.strictEqual(
+			edit(content, "en.json", {
+				type: "rename",
+				key: "common.hello",
+				newKey: "home.hello",
+			}),
+			'{\n\t"home": {\n\t\t"hello": "Hello"\n\t}\n}\n',
+		);
+	});
+
+	test("deletes a key and the object it leaves empty", () => {
+		assert.strictEqual(
+			edit(
+				'{\n\t"common": {\n\t\t"hello": "Hello"\n\t},\n\t"title": "T"\n}\n',
+				"en.json",
+				{ type: "delete", key: "common.hello" },
+			),
+			'{\n\t"title": "T"\n}\n',
+		);
+	});
+
+	test("rejects existing and unknown keys", () => {
+		assert.throws(
+			() =>
+				edit(content, "en.json", {
+					type: "add",
+					key: "common.hello",
+					value: "x",
+				}),
+			/already exists: common\.hello/,
+		);
+		assert.throws(
+			() =>
+				edit(content, "en.json", {
+					type: "update",
+					key: "common.nope",
+					value: "x",
+				}),
+			/not found: common\.nope/,
+		);
+	});
+
+	test("renames ARB metadata along with its key", () => {
+		assert.strictEqual(
+			edit(
+				'{\n\t"hello": "Hello",\n\t"@hello": {\n\t\t"description": "Greeting"\n\t}\n}\n',
+				"app_en.arb",
+				{ type: "rename", key: "hello", newKey: "hi" },
+			),
+			'{\n\t"hi": "Hello",\n\t"@hi": {\n\t\t"description": "Greeting"\n\t}\n}\n',
+		);
+	});
+});
+
+suite("catalogueWriter: TypeScript", () => {
+	const content =
+		'// Greetings\nexport default {\n\tcommon: {\n\t\thello: "Hello", // keep\n\t},\n\ttitle: "T",\n};\n';
+
+	test("applies several edits and keeps comments", () => {
+		assert.strictEqual(
+			edit(
+				content,
+				"en.ts",
+				{ type: "add", key: "common.bye", value: "Bye" },
+				{ type: "update", key: "common.hello", value: "Hi" },
+			),
+			'// Greetings\nexport default {\n\tcommon: {\n\t\thello: "Hi", // keep\n\t\tbye: "Bye",\n\t},\n\ttitle: "T",\n};\n',
+		);
+	});
+
+	test("renames and deletes keys", () => {
+		assert.strictEqual(
+			edit(content, "en.ts", {
+				type: "rename",
+				key: "common.hello",
+				newKey: "common.hi",
+			}),
+			'// Greetings\nexport default {\n\tcommon: {\n\t\thi: "Hello", // keep\n\t},\n\ttitle: "T",\n};\n',
+		);
+		assert.strictEqual(
+			edit(content, "en.ts", { type: "delete", key: "common.hello" }),
+			'// Greetings\nexport default {\n\ttitle: "T",\n};\n',
+		);
+	});
+
+	test("edits objects referenced in the same file", () => {
+		assert.strictEqual(
+			edit(
+				'const common = {\n\thello: "Hello",\n};\n\nexport default {\n\tcommon,\n};\n',
+				"en.ts",
+				{ type: "update", key: "common.hello", value: "Hi" },
+			),
+			'const common = {\n\thello: "Hi",\n};\n\nexport default {\n\tcommon,\n};\n',
+		);
+	});
+
+	test("refuses to edit objects imported from another file", () => {
+		assert.throws(
+			() =>
+				edit(
+					'import common from "./common";\n\nexport default {\n\tcommon,\n};\n',
+					"en.ts",
+					{ type: "update", key: "common.hello", value: "Hi" },
+				),
+			/"common" is imported from another file/,
+		);
+	});
+});
+
+suite("catalogueWriter: YAML", () => {
+	test("adds a key and keeps comments", () => {
+		assert.strictEqual(
+			edit("# Greetings\ncommon:\n  hello: Hello # keep\n", "en.yaml", {
+				type: "add",
+				key: "common.bye",
+				value: "Bye",
+			}),
+			"# Greetings\ncommon:\n  hello: Hello # keep\n  bye: Bye\n",
+		);
+	});
+
+	test("quotes values that need it", () => {
+		assert.strictEqual(
+			edit("common:\n  hello: Hello\n", "en.yml", {
+				type: "update",
+				key: "common.hello",
+				value: "Hi: there",
+			}),
+			'common:\n  hello: "Hi: there"\n',
+		);
+	});
+
+	test("renames and deletes keys", () => {
+		assert.strictEqual(
+			edit("common:\n  hello: Hello\n", "en.yaml", {
+				type: "rename",
+				key: "common.hello",
+				newKey: "common.hi",
+			}),
+			"common:\n  hi: Hello\n",
+		);
+		assert.strictEqual(
+			edit("common:\n  hello: Hello\ntitle: T\n", "en.yaml", {
+				type: "delete",
+				key: "common.hello",
+			}),
+			"title: T\n",
+		);
+	});
+});
+
+suite("catalogueWriter: gettext", () => {
+	const header = 'msgid ""\nmsgstr ""\n\n';
+
+	test("adds a message", () => {
+		assert.strictEqual(
+			edit(`${header}msgid "Hello"\nmsgstr "Hallo"\n`, "de.po", {
+				type: "add",
+				key: "Bye",
+				value: "Tschüss",
+			}),
+			`${header}msgid "Hello"\nmsgstr "Hallo"\n\nmsgid "Bye"\nmsgstr "Tschüss"\n`,
+		);
+	});
+
+	test("updates a translation and keeps references", () => {
+		assert.strictEqual(
+			edit(
+				`${header}#: src/app.ts:1\nmsgid "Hello"\nmsgstr "Hallo"\n`,
+				"de.po",
+				{ type: "update", key: "Hello", value: 'Servus "du"' },
+			),
+			`${header}#: src/app.ts:1\nmsgid "Hello"\nmsgstr "Servus \\"du\\""\n`,
+		);
+	});
+
+	test("renames and deletes messages", () => {
+		assert.strictEqual(
+			edit(`${header}msgid "Hello"\nmsgstr "Hallo"\n`, "de.po", {
+				type: "rename",
+				key: "Hello",
+				newKey: "Hi",
+			}),
+			`${header}msgid "Hi"\nmsgstr "Hallo"\n`,
+		);
+		assert.strictEqual(
+			edit(
+				`${header}msgid "Hello"\nmsgstr "Hallo"\n\nmsgid "Bye"\nmsgstr "Tschüss"\n`,
+				"de.po",
+				{ type: "delete", key: "Hello" },
+			),
+			`${header}msgid "Bye"\nmsgstr "Tschüss"\n`,
+		);
+	});
+});
+
+suite("catalogueWriter: properties", () => {
+	test("adds an entry", () => {
+		assert.strictEqual(
+			edit("# Greetings\ncommon.hello = Hello\n", "en.properties", {
+				type: "add",
+				key: "common.bye",
+				value: "Bye",
+			}),
+			"# Greetings\ncommon.hello = Hello\ncommon.bye=Bye\n",
+		);
+	});
+
+	test("updates a value continued over several lines", () => {
+		assert.strictEqual(
+			edit("common.hello = Hello \\\n    World\n", "en.properties", {
+				type: "update",
+				key: "common.hello",
+				value: "Hi",
+			}),
+			"common.hello = Hi\n",
+		);
+	});
+
+	test("renames and deletes entries", () => {
+		assert.strictEqual(
+			edit("common.hello = Hello\n", "en.properties", {
+				type: "rename",
+				key: "common.hello",
+				newKey: "common.hi",
+			}),
+			"common.hi = Hello\n",
+		);
+		assert.strictEqual(
+			edit("common.hello = Hello\ntitle = T\n", "en.properties", {
+				type: "delete",
+				key: "common.hello",
+			}),
+			"title = T\n",
+		);
+	});
+});
@@ -0,0 +1,114 @@
+import * as assert from "assert";
+import type { LocaleCatalogue } from "../catalogue";
+import { coverageReport, coverageToCsv, coverageToJson } from "../coverage";
+
+function catalogue(
+	locale: string,
+	entries: Record<string, string>,
+): LocaleCatalogue {
+	return {
+		locale,
+		filePath: `/locales/${locale}.json`,
+		entries,
+		locations: {},
+		map: {},
+	};
+}
+
+const reference = catalogue("en", {
+	hello: "Hello {{name}}",
+	bye: "Bye",
+	title: "Title",
+	ok: "OK",
+	item_one: "{{count}} item",
+	item_other: "{{count}} items",
+});
+
+suite("coverageReport", () => {
+	test("reports each kind of issue", () => {
+		const report = coverageReport([
+			[
+				reference,
+				catalogue("de", {
+					hello: "Hallo {{user}}",
+					bye: "",
+					title: "Title",
+					item_one: "{{count}} Artikel",
+					item_other: "{{count}} Artikel",
+					old: "Alt",
+				}),
+			],
+		]);
+		assert.strictEqual(report.referenceLocale, "en");
+		const [de] = report.locales;
+		assert.deepStrictEqual(
+			de.issues.map(({ kind, key }) => `${kind} ${key}`),
+			[
+				"placeholders hello",
+				"empty bye",
+				"untranslated title",
+				"missing ok",
+				"extra old",
+			],
+		);
+		assert.deepStrictEqual(de.issues[0].placeholders, {
+			missing: ["name"],
+			extra: ["user"],
+		});
+		assert.strictEqual(de.total, 6);
+		assert.strictEqual(de.translated, 3);
+		assert.strictEqual(de.percent, 50);
+	});
+
+	test("skips plural forms a locale does not have", () => {
+		const { hello, bye, title, ok, item_other } = reference.entries;
+		const [ja] = coverageReport([
+			[
+				reference,
+				catalogue("ja", {
+					hello: "こんにちは {{name}}",
+					bye,
+					title,
+					ok,
+					item_other,
+				}),
+			],
+		]).locales;
+		assert.ok(!ja.issues.some((issue) => issue.kind === "missing"));
+		assert.strictEqual(ja.total, 5);
+	});
+
+	test("counts a locale missing from a group as missing every key", () => {
+		const [de] = coverageReport([
+			[reference, catalogue("de", { ...reference.entries, ok: "Okay" })],
+			[catalogue("en", { cart: "Cart" })],
+		]).locales;
+		assert.deepStrictEqual(de.filePaths, ["/locales/de.json"]);
+		assert.deepStrictEqual(
+			de.issues.filter((issue) => issue.kind === "missing"),
+			[{ kind: "missing", key: "cart", referenceValue: "Cart" }],
+		);
+		assert.strictEqual(de.total, 7);
+	});
+});
+
+suite("coverage exports", () => {
+	const report = coverageReport([
+		[
+			catalogue("en", { hello: 'Say "hi", {name}' }),
+			catalogue("de", { hello: "Sag hallo" }),
+		],
+	]);
+
+	test("writes JSON", () => {
+		assert.deepStrictEqual(JSON.parse(coverageToJson(report)), report);
+	});
+
+	test("writes CSV with quoted fields", () => {
+		assert.strictEqual(
+			coverageToCsv(report),
+			"locale,percent,issue,key,value,referenceValue,missingPlaceholders,extraPlaceholders\r\n" +
+				'de,100,placeholders,hello,Sag hallo,"Say ""hi"", {name}",name,\r\n',
+		);
+	});
+});
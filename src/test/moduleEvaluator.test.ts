@@ -0,0 +1,105 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ModuleEvaluator } from "../loaders/moduleEvaluator";
+
+suite("ModuleEvaluator", () => {
+	let dir: string;
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "module-evaluator-"));
+	});
+
+	teardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	function write(name: string, content: string): string {
+		const filePath = path.join(dir, name);
+		fs.writeFileSync(filePath, content);
+		return filePath;
+	}
+
+	test("evaluates literals, references and spreads", () => {
+		const filePath = write(
+			"en.ts",
+			[
+				'const base = { ok: "OK" };',
+				'const name = "cart";',
+				"export default {",
+				"\t...base,",
+				'\t[name]: "Cart",',
+				'\tgreeting: "Hello " + "there",',
+				"\ttemplate: `Hi ${user}`,",
+				'\tnested: Object.freeze({ deep: "Deep" }) as const,',
+				"\tcount: 3,",
+				"\tunknown: run(),",
+				"};",
+			].join("\n"),
+		);
+		assert.deepStrictEqual(
+			new ModuleEvaluator().evaluateDefaultExport(filePath),
+			{
+				ok: "OK",
+				cart: "Cart",
+				greeting: "Hello there",
+				template: "Hi ${user}",
+				nested: { deep: "Deep" },
+				count: 3,
+				unknown: undefined,
+			},
+		);
+	});
+
+	test("follows relative imports, re-exports and JSON modules", () => {
+		write("common.json", '{ "ok": "OK" }');
+		write("shared.ts", 'export * from "./cart";\nexport const title = "T";');
+		write("cart.ts", 'export const cart = { add: "Add" };');
+		const filePath = write(
+			"en.ts",
+			[
+				'import common from "./common.json";',
+				'import { cart, title } from "./shared";',
+				"module.exports = { common, cart, title };",
+			].join("\n"),
+		);
+		assert.deepStrictEqual(
+			new ModuleEvaluator().evaluateDefaultExport(filePath),
+			{ common: { ok: "OK" }, cart: { add: "Add" }, title: "T" },
+		);
+	});
+
+	test("locates properties where they are defined", () => {
+		const commonPath = write(
+			"common.ts",
+			'export default {\n\thello: "Hello",\n};',
+		);
+		const filePath = write(
+			"en.ts",
+			'import common from "./common";\nexport default {\n\t...common,\n\tbye: "Bye",\n};',
+		);
+		const evaluator = new ModuleEvaluator();
+		const value = evaluator.evaluateDefaultExport(filePath) as object;
+		assert.deepStrictEqual(
+			[evaluator.locate(value, "hello"), evaluator.locate(value, "bye")].map(
+				(location) => location && [location.filePath, location.line],
+			),
+			[
+				[commonPath, 1],
+				[filePath, 3],
+			],
+		);
+	});
+
+	test("evaluates circular references to undefined", () => {
+		const filePath = write(
+			"en.ts",
+			"const a = { b };\nconst b = { a };\nexport default a;",
+		);
+		assert.deepStrictEqual(
+			new ModuleEvaluator().evaluateDefaultExport(filePath),
+			{ b: { a: undefined } },
+		);
+	});
+});
@@ -0,0 +1,89 @@
+import * as assert from "assert";
+import { icuChoice, splitPlaceholders } from "../placeholders";
+
+/** Parts written as `[name]` for placeholders and plain text otherwise */
+function parts(value: string): string[] {
+	return splitPlaceholders(value).map(({ text, placeholder }) =>
+		placeholder ? `[${text}]` : text,
+	);
+}
+
+suite("splitPlaceholders", () => {
+	test("splits i18next, ICU and template placeholders", () => {
+		assert.deepStrictEqual(parts("Hi {{name}}, {count} new"), [
+			"Hi ",
+			"[{{name}}]",
+			", ",
+			"[{count}]",
+			" new",
+		]);
+		assert.deepStrictEqual(parts("Total: ${amount}"), [
+			"Total: ",
+			"[${amount}]",
+		]);
+	});
+
+	test("keeps nested ICU braces in one placeholder", () => {
+		assert.deepStrictEqual(
+			parts("{count, plural, one {# item} other {# items}} left"),
+			["[{count, plural, one {# item} other {# items}}]", " left"],
+		);
+	});
+
+	test("splits printf placeholders", () => {
+		assert.deepStrictEqual(parts("%s has %d items"), [
+			"[%s]",
+			" has ",
+			"[%d]",
+			" items",
+		]);
+		assert.deepStrictEqual(parts("%1$s and %2$s"), [
+			"[%1$s]",
+			" and ",
+			"[%2$s]",
+		]);
+		assert.deepStrictEqual(parts("%.2f EUR"), ["[%.2f]", " EUR"]);
+	});
+
+	test("reads %% as a literal percent sign", () => {
+		assert.deepStrictEqual(parts("100%% sure"), ["100% sure"]);
+	});
+
+	test("keeps percentages followed by a space as text", () => {
+		assert.deepStrictEqual(parts("Save 20% on everything"), [
+			"Save 20% on everything",
+		]);
+		assert.deepStrictEqual(parts("20% off"), ["20% off"]);
+		assert.deepStrictEqual(parts("100% de réduction"), ["100% de réduction"]);
+		assert.deepStrictEqual(parts("50 % sur tout"), ["50 % sur tout"]);
+	});
+
+	test("keeps an empty {} as text", () => {
+		assert.deepStrictEqual(parts("Use {} here"), ["Use {} here"]);
+	});
+});
+
+suite("icuChoice", () => {
+	test("lists the messages of plurals and selects", () => {
+		assert.deepStrictEqual(
+			icuChoice(
+				"{count, plural, offset:1 =0 {none} one {# item} other {# items}}",
+			),
+			{ plural: true, messages: ["none", "# item", "# items"] },
+		);
+		assert.deepStrictEqual(
+			icuChoice(
+				"{gender, select, female {{name} replied} other {They replied}}",
+			),
+			{ plural: false, messages: ["{name} replied", "They replied"] },
+		);
+	});
+
+	test("ignores other placeholders", () => {
+		assert.strictEqual(icuChoice("{name}"), undefined);
+		assert.strictEqual(
+			icuChoice("{amount, number, ::currency/EUR}"),
+			undefined,
+		);
+	});
+});
@@ -0,0 +1,74 @@
+import * as assert from "assert";
+import type * as vscode from "vscode";
+import { SearchHistory } from "../searchHistory";
+
+/** A memento kept in memory, which drops keys updated to undefined */
+class MemoryMemento implements vscode.Memento {
+	private values = new Map<string, unknown>();
+
+	constructor(entries: Record<string, unknown> = {}) {
+		for (const [key, value] of Object.entries(entries)) {
+			this.values.set(key, value);
+		}
+	}
+
+	keys(): readonly string[] {
+		return [...this.values.keys()];
+	}
+
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		return this.values.has(key) ? (this.values.get(key) as T) : defaultValue;
+	}
+
+	update(key: string, value: unknown): Thenable<void> {
+		if (value === undefined) {
+			this.values.delete(key);
+		} else {
+			this.values.set(key, value);
+		}
+		return Promise.resolve();
+	}
+}
+
+suite("SearchHistory.migrateLegacySearch", () => {
+	const legacy = {
+		"i18nSearch.lastSearchTerm": "hello",
+		"i18nSearch.lastSearchResults": [],
+		"i18nSearch.searchOptions": { fuzzy: true },
+	};
+
+	test("moves the shared last search into the workspace once", async () => {
+		const globalState = new MemoryMemento(legacy);
+		const history = new SearchHistory(new MemoryMemento());
+		await history.migrateLegacySearch(globalState);
+		assert.deepStrictEqual(history.lastSearch, {
+			searchText: "hello",
+			options: { fuzzy: true },
+		});
+		assert.deepStrictEqual(globalState.keys(), []);
+
+		const other = new SearchHistory(new MemoryMemento());
+		await other.migrateLegacySearch(globalState);
+		assert.deepStrictEqual(other.lastSearch, { searchText: "", options: {} });
+	});
+
+	test("keeps the workspace's own last search", async () => {
+		const globalState = new MemoryMemento(legacy);
+		const history = new SearchHistory(new MemoryMemento());
+		await history.setLastSearch("bye", {});
+		await history.migrateLegacySearch(globalState);
+		assert.deepStrictEqual(history.lastSearch, {
+			searchText: "bye",
+			options: {},
+		});
+		assert.deepStrictEqual(globalState.keys(), []);
+	});
+
+	test("leaves other global state alone", async () => {
+		const globalState = new MemoryMemento({ other: 1 });
+		await new SearchHistory(new MemoryMemento()).migrateLegacySearch(
+			globalState,
+		);
+		assert.deepStrictEqual(globalState.keys(), ["other"]);
+	});
+});
@@ -0,0 +1,97 @@
+import * as assert from "assert";
+import {
+	createMatcher,
+	DEFAULT_SEARCH_OPTIONS,
+	type Matcher,
+	type SearchOptions,
+} from "../translationSearch";
+
+function matcher(query: string, options: Partial<SearchOptions> = {}): Matcher {
+	const matcher = createMatcher(query, {
+		...DEFAULT_SEARCH_OPTIONS,
+		...options,
+	});
+	if ("error" in matcher) {
+		throw new Error(matcher.error);
+	}
+	return matcher;
+}
+
+function score(query: string, value: string): number | undefined {
+	return matcher(query)(value)?.score;
+}
+
+suite("createMatcher", () => {
+	test("ranks exact, prefix, word and substring matches", () => {
+		const exact = score("hello", "Hello");
+		const prefix = score("hello", "Hello world");
+		const word = score("world", "Hello world");
+		const substring = score("orld", "Hello world");
+		assert.ok(exact !== undefined && prefix !== undefined);
+		assert.ok(word !== undefined && substring !== undefined);
+		assert.ok(exact > prefix && prefix > word && word > substring);
+	});
+
+	test("normalises quotes, dashes and whitespace", () => {
+		assert.ok(matcher("don't  stop")("Don’t stop"));
+		assert.ok(matcher("a - b")("a – b"));
+	});
+
+	test("tolerates typos only when fuzzy", () => {
+		assert.ok(matcher("wlecome")("Welcome"));
+		assert.strictEqual(
+			matcher("wlecome", { fuzzy: false })("Welcome"),
+			undefined,
+		);
+	});
+
+	test("honours whole word and case sensitive", () => {
+		assert.strictEqual(
+			matcher("art", { wholeWord: true, fuzzy: false })("Start"),
+			undefined,
+		);
+		assert.strictEqual(
+			matcher("hello", { caseSensitive: true, fuzzy: false })("Hello"),
+			undefined,
+		);
+	});
+
+	test("reports invalid regular expressions", () => {
+		const result = createMatcher("(", {
+			...DEFAULT_SEARCH_OPTIONS,
+			regex: true,
+		});
+		assert.ok("error" in result);
+	});
+
+	test("matches rendered text against placeholders", () => {
+		const rendered = score(
+			"Hello Sarah, you have 3 items",
+			"Hello {{name}}, you have {count} items",
+		);
+		assert.ok(rendered !== undefined);
+		assert.ok(rendered > (score("Hello Sarah", "Hello Sarah, welcome") ?? 0));
+	});
+
+	test("matches rendered ICU plurals at the rendered score", () => {
+		const rendered = score(
+			"You have 3 new messages",
+			"You have {count} new messages",
+		);
+		const value =
+			"{count, plural, one {You have # new message} other {You have # new messages}}";
+		assert.strictEqual(score("You have 3 new messages", value), rendered);
+		assert.strictEqual(score("You have 1 new message", value), rendered);
+		assert.strictEqual(
+			score(
+				"Sarah replied",
+				"{gender, select, female {{name} replied} other {They replied}}",
+			),
+			rendered,
+		);
+	});
+
+	test("does not match values that are only placeholders", () => {
+		assert.strictEqual(score("Anything at all", "{{value}}"), undefined);
+	});
+});
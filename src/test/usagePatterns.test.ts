@@ -0,0 +1,53 @@
+import * as assert from "assert";
+import { compileUsagePatterns, keySearchPattern } from "../usagePatterns";
+
+function finds(presets: string[], key: string, text: string): boolean {
+	const source = keySearchPattern(compileUsagePatterns(presets), key);
+	return new RegExp(source).test(text);
+}
+
+suite("keySearchPattern", () => {
+	test("finds a plain key", () => {
+		assert.ok(finds(["i18next"], "cart.title", `t("cart.title")`));
+		assert.ok(!finds(["i18next"], "cart.title", `t("cart.titles")`));
+	});
+
+	test("finds a qualified key with and without its namespace", () => {
+		assert.ok(finds(["i18next"], "checkout:title", `t("checkout:title")`));
+		assert.ok(finds(["i18next"], "checkout:title", `t("title")`));
+	});
+
+	test("splits a namespace placeholder at dots", () => {
+		assert.ok(
+			finds(
+				["next-intl"],
+				"cart.items.title",
+				`useTranslations("cart.items")("title")`,
+			),
+		);
+	});
+
+	test("splits a namespace placeholder at the namespace separator", () => {
+		assert.ok(
+			finds(
+				["next-intl"],
+				"checkout:cart.title",
+				`useTranslations("checkout")("cart.title")`,
+			),
+		);
+		assert.ok(
+			finds(
+				["next-intl"],
+				"checkout:cart.title",
+				`useTranslations("cart")("title")`,
+			),
+		);
+		assert.ok(
+			!finds(
+				["next-intl"],
+				"checkout:cart.title",
+				`useTranslations("checkout:cart")("title")`,
+			),
+		);
+	});
+});
@@ -0,0 +1,268 @@
+import * as vscode from "vscode";
+import { getKeyReferences, USAGE_DOCUMENT_SELECTOR } from "./keyReferences";
+import type { FolderTranslations, TranslationStore } from "./translationStore";
+
+const VALUE_STYLE: vscode.DecorationRenderOptions = {
+	after: {
+		margin: "0 0 0 0.5em",
+		color: new vscode.ThemeColor("editorCodeLens.foreground"),
+		fontStyle: "italic",
+	},
+	rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+};
+
+const MISSING_STYLE: vscode.DecorationRenderOptions = {
+	after: {
+		margin: "0 0 0 0.5em",
+		color: new vscode.ThemeColor("editorWarning.foreground"),
+		fontStyle: "italic",
+	},
+	rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+};
+
+/** How far after a key the closing parenthesis of its call is looked for */
+const MAX_CALL_LENGTH = 500;
+
+/** The value shown for a key, or why there is none */
+type ResolvedValue = { value: string } | { missing: string };
+
+/**
+ * Shows the value of each key after its call in the visible editors, e.g.
+ * `t("cart.empty") ▸ Your cart is empty`, in the locale chosen with
+ * `i18nSearch.decorations.locale`. Keys without a value get a warning style.
+ */
+export class TranslationDecorations implements vscode.Disposable {
+	private valueDecoration =
+		vscode.window.createTextEditorDecorationType(VALUE_STYLE);
+	private missingDecoration =
+		vscode.window.createTextEditorDecorationType(MISSING_STYLE);
+	private disposables: vscode.Disposable[] = [];
+	private pendingDocuments = new Map<string, NodeJS.Timeout>();
+
+	constructor(private store: TranslationStore) {
+		this.disposables.push(
+			this.valueDecoration,
+			this.missingDecoration,
+			store.onDidChange(() => this.updateAll()),
+			vscode.window.onDidChangeVisibleTextEditors(() => this.updateAll()),
+			vscode.workspace.onDidChangeTextDocument((event) =>
+				this.scheduleDocumentUpdate(event.document),
+			),
+			vscode.workspace.onDidChangeConfiguration((event) => {
+				if (
+					event.affectsConfiguration("i18nSearch.decorations") ||
+					event.affectsConfiguration("i18nSearch.usagePresets") ||
+					event.affectsConfiguration("i18nSearch.usagePatterns")
+				) {
+					this.updateAll();
+				}
+			}),
+		);
+		this.updateAll();
+	}
+
+	private updateAll() {
+		vscode.window.visibleTextEditors.forEach((editor) => this.update(editor));
+	}
+
+	private scheduleDocumentUpdate(document: vscode.TextDocument) {
+		const uri = document.uri.toString();
+		clearTimeout(this.pendingDocuments.get(uri));
+		this.pendingDocuments.set(
+			uri,
+			setTimeout(() => {
+				this.pendingDocuments.delete(uri);
+				vscode.window.visibleTextEditors
+					.filter((editor) => editor.document === document)
+					.forEach((editor) => this.update(editor));
+			}, 200),
+		);
+	}
+
+	private update(editor: vscode.TextEditor) {
+		const { document } = editor;
+		const config = vscode.workspace.getConfiguration(
+			"i18nSearch.decorations",
+			document.uri,
+		);
+		const folder = this.store.forUri(document.uri);
+		if (
+			!config.get<boolean>("enabled", false) ||
+			!folder ||
+			!vscode.languages.match(USAGE_DOCUMENT_SELECTOR, document) ||
+			this.store.filePaths.includes(document.uri.fsPath)
+		) {
+			editor.setDecorations(this.valueDecoration, []);
+			editor.setDecorations(this.missingDecoration, []);
+			return;
+		}
+
+		const locale = config.get<string>("locale", "");
+		const maxLength = config.get<number>("maxLength", 50);
+		const values: vscode.DecorationOptions[] = [];
+		const missing: vscode.DecorationOptions[] = [];
+		const text = document.getText();
+		for (const { key, range } of getKeyReferences(document)) {
+			const end = document.positionAt(
+				callEnd(
+					text,
+					document.offsetAt(range.start),
+					document.offsetAt(range.end),
+				),
+			);
+			const resolved = resolveValue(folder, key, locale);
+			const decoration = (contentText: string) => ({
+				range: new vscode.Range(end, end),
+				renderOptions: { after: { contentText } },
+			});
+			if ("value" in resolved) {
+				values.push(decoration(`▸ ${truncate(resolved.value, maxLength)}`));
+			} else {
+				missing.push(decoration(`▸ ⚠ ${resolved.missing}`));
+			}
+		}
+		editor.setDecorations(this.valueDecoration, values);
+		editor.setDecorations(this.missingDecoration, missing);
+	}
+
+	dispose() {
+		for (const timeout of this.pendingDocuments.values()) {
+			clearTimeout(timeout);
+		}
+		this.disposables.forEach((disposable) => disposable.dispose());
+	}
+}
+
+/**
+ * Value of a key in the locale, by default its reference locale. A plural
+ * key shows its `other` form.
+ */
+function resolveValue(
+	folder: FolderTranslations,
+	key: string,
+	locale: string,
+): ResolvedValue {
+	const translations = folder.displayedTranslationsFor(key);
+	if (Object.keys(translations).length === 0) {
+		return { missing: "unknown key" };
+	}
+
+	const shownLocale = locale || folder.cataloguesFor(key)[0]?.locale;
+	const value = shownLocale ? translations[shownLocale] : undefined;
+	return value === undefined
+		? { missing: `missing in ${shownLocale}` }
+		: { value };
+}
+
+/**
+ * Offset after the call containing a key, e.g. after the `)` of
+ * `t("key", { count })`. Keys not passed to a call, such as
+ * `i18nKey="key"`, end after their closing quote.
+ */
+function callEnd(text: string, keyStart: number, keyEnd: number): number {
+	const afterQuote = keyEnd + 1;
+	const before = text.slice(Math.max(0, keyStart - 50), keyStart);
+	if (!/\(\s*['"`]$/.test(before)) {
+		return afterQuote;
+	}
+
+	let depth = 1;
+	let quote: string | undefined;
+	const limit = Math.min(text.length, afterQuote + MAX_CALL_LENGTH);
+	for (let i = afterQuote; i < limit; i++) {
+		const char = text[i];
+		if (quote) {
+			if (char === "\\") {
+				i++;
+			} else if (char === quote) {
+				quote = undefined;
+			}
+		} else if (char === '"' || char === "'" || char === "`") {
+			quote = char;
+		} else if (char === "(") {
+			depth++;
+		} else if (char === ")" && --depth === 0) {
+			return i + 1;
+		}
+	}
+	return afterQuote;
+}
+
+/** Collapses whitespace and shortens the value to `maxLength` characters */
+function truncate(value: string, maxLength: number): string {
+	const text = value.replace(/\s+/g, " ").trim();
+	return maxLength > 0 && text.length > maxLength
+		? `${text.slice(0, maxLength - 1)}…`
+		: text;
+}
+
+/** Registers the decorations and the commands configuring them */
+export function registerTranslationDecorations(
+	context: vscode.ExtensionContext,
+	store: TranslationStore,
+) {
+	context.subscriptions.push(
+		new TranslationDecorations(store),
+		vscode.commands.registerCommand(
+			"i18n-search.toggleDecorations",
+			async () => {
+				const config = vscode.workspace.getConfiguration("i18nSearch");
+				await config.update(
+					"decorations.enabled",
+					!config.get<boolean>("decorations.enabled", false),
+					settingTarget(config, "decorations.enabled"),
+				);
+			},
+		),
+		vscode.commands.registerCommand("i18n-search.selectDecorationLocale", () =>
+			selectDecorationLocale(store),
+		),
+	);
+}
+
+async function selectDecorationLocale(store: TranslationStore) {
+	const config = vscode.workspace.getConfiguration("i18nSearch");
+	const current = config.get<string>("decorations.locale", "");
+	const locales = [
+		...new Set(store.locales.map((catalogue) => catalogue.locale)),
+	];
+	const picked = await vscode.window.showQuickPick(
+		[
+			{ label: "Reference locale", locale: "" },
+			...locales.map((locale) => ({ label: locale, locale })),
+		].map((item) => ({
+			...item,
+			description: item.locale === current ? "current" : undefined,
+		})),
+		{ title: "Locale of Inline Translations" },
+	);
+	if (!picked) {
+		return;
+	}
+	// Locales differ between projects, so the choice is kept per workspace
+	await config.update(
+		"decorations.locale",
+		picked.locale,
+		vscode.workspace.workspaceFolders
+			? vscode.ConfigurationTarget.Workspace
+			: vscode.ConfigurationTarget.Global,
+	);
+	// Show the chosen locale right away
+	if (!config.get<boolean>("decorations.enabled", false)) {
+		await config.update(
+			"decorations.enabled",
+			true,
+			settingTarget(config, "decorations.enabled"),
+		);
+	}
+}
+
+/** The workspace settings if they set the setting, else the user settings */
+function settingTarget(
+	config: vscode.WorkspaceConfiguration,
+	section: string,
+): vscode.ConfigurationTarget {
+	return config.inspect(section)?.workspaceValue !== undefined
+		? vscode.ConfigurationTarget.Workspace
+		: vscode.ConfigurationTarget.Global;
+}
@@ -0,0 +1,393 @@
+import { hasPlaceholders, icuChoice, splitPlaceholders } from "./placeholders";
+
+/** How a query is matched against translation keys and values */
+export interface SearchOptions {
+	caseSensitive: boolean;
+	wholeWord: boolean;
+	regex: boolean;
+	/** Tolerate typos; ignored for regular expressions */
+	fuzzy: boolean;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+	caseSensitive: false,
+	wholeWord: false,
+	regex: false,
+	fuzzy: true,
+};
+
+/** Start (inclusive) and end (exclusive) offsets in the original text */
+export type MatchRange = [number, number];
+
+export interface TextMatch {
+	score: number;
+	ranges: MatchRange[];
+}
+
+/** Match tiers; a result's score is its best tier less any penalties */
+const SCORE = {
+	exact: 100,
+	prefix: 80,
+	word: 60,
+	substring: 40,
+	fuzzy: 20,
+	/** The query is the value rendered with its placeholders filled in */
+	rendered: 95,
+	/** The query contains the rendered value */
+	renderedWithin: 50,
+};
+/** Literal characters a value needs besides placeholders to match rendered text */
+const MIN_TEMPLATE_LITERAL = 3;
+/** Penalty for matches found only once punctuation is ignored */
+const PUNCTUATION_PENALTY = 5;
+/** Penalty per typo in fuzzy matches */
+const TYPO_PENALTY = 5;
+
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+	"‘": "'",
+	"’": "'",
+	"‚": "'",
+	"‛": "'",
+	"′": "'",
+	"´": "'",
+	"`": "'",
+	"“": '"',
+	"”": '"',
+	"„": '"',
+	"‟": '"',
+	"«": '"',
+	"»": '"',
+	"″": '"',
+	"‐": "-",
+	"‑": "-",
+	"‒": "-",
+	"–": "-",
+	"—": "-",
+	"―": "-",
+	"−": "-",
+	"…": "...",
+};
+
+/** Text prepared for matching, mapping each character back to the original */
+interface NormalizedText {
+	text: string;
+	/** Original offsets where each character of `text` starts and ends */
+	starts: number[];
+	ends: number[];
+}
+
+/**
+ * Normalises quotes, dashes, ellipses, compatibility characters and
+ * whitespace (collapsed to single spaces), and optionally case and
+ * punctuation, so pasted text matches what is in the catalogue.
+ */
+function normalize(
+	original: string,
+	{ caseSensitive = false, stripPunctuation = false } = {},
+): NormalizedText {
+	let text = "";
+	const starts: number[] = [];
+	const ends: number[] = [];
+	let offset = 0;
+	let pendingSpace = -1;
+
+	for (const char of original) {
+		const start = offset;
+		offset += char.length;
+		if (/\s/.test(char)) {
+			if (text && pendingSpace === -1) {
+				pendingSpace = start;
+			}
+			continue;
+		}
+		let replacement =
+			CHARACTER_REPLACEMENTS[char] ?? char.normalize("NFKC").normalize("NFC");
+		if (stripPunctuation) {
+			replacement = replacement.replace(/\p{P}/gu, "");
+		}
+		if (!caseSensitive) {
+			replacement = replacement.toLowerCase();
+		}
+		if (!replacement) {
+			continue;
+		}
+		if (pendingSpace !== -1) {
+			text += " ";
+			starts.push(pendingSpace);
+			ends.push(start);
+			pendingSpace = -1;
+		}
+		text += replacement;
+		for (let i = 0; i < replacement.length; i++) {
+			starts.push(start);
+			ends.push(offset);
+		}
+	}
+
+	return { text, starts, ends };
+}
+
+/** Converts a non-empty range of the normalised text to the original text */
+function toOriginalRange(
+	normalized: NormalizedText,
+	start: number,
+	end: number,
+): MatchRange {
+	return [normalized.starts[start], normalized.ends[end - 1]];
+}
+
+function isWordCharacter(char: string | undefined): boolean {
+	return char !== undefined && /[\p{L}\p{N}_]/u.test(char);
+}
+
+function isWordBoundary(text: string, index: number): boolean {
+	return !isWordCharacter(text[index - 1]) || !isWordCharacter(text[index]);
+}
+
+/** Tier of a match at `start`..`end` of `text` */
+function tierScore(text: string, start: number, end: number): number {
+	if (start === 0 && end === text.length) {
+		return SCORE.exact;
+	}
+	if (start === 0) {
+		return SCORE.prefix;
+	}
+	return isWordBoundary(text, start) ? SCORE.word : SCORE.substring;
+}
+
+export type Matcher = (text: string) => TextMatch | undefined;
+
+/**
+ * Compiles a query into a matcher for keys and values. Returns an error
+ * message instead when a regular expression is invalid.
+ */
+export function createMatcher(
+	query: string,
+	options: SearchOptions,
+): Matcher | { error: string } {
+	if (options.regex) {
+		let pattern: RegExp;
+		try {
+			pattern = new RegExp(
+				options.wholeWord ? `\\b(?:${query})\\b` : query,
+				options.caseSensitive ? "gu" : "giu",
+			);
+		} catch (error) {
+			return { error: error instanceof Error ? error.message : String(error) };
+		}
+		return (text) => matchRegExp(text, pattern);
+	}
+
+	const strict = normalize(query, options).text;
+	const loose = normalize(query, { ...options, stripPunctuation: true }).text;
+	if (!strict) {
+		return { error: "Enter some text to search for" };
+	}
+	return (text) => {
+		const normalized = normalize(text, options);
+		const exact = matchLiteral(normalized, strict, options);
+		if (exact) {
+			return exact;
+		}
+		const rendered = matchTemplate(text, strict, options);
+		if (rendered) {
+			return rendered;
+		}
+		if (loose) {
+			const relaxed = matchLiteral(
+				normalize(text, { ...options, stripPunctuation: true }),
+				loose,
+				options,
+			);
+			if (relaxed) {
+				return { ...relaxed, score: relaxed.score - PUNCTUATION_PENALTY };
+			}
+		}
+		return options.fuzzy ? matchFuzzy(normalized, strict, options) : undefined;
+	};
+}
+
+/**
+ * Matches rendered text such as `Hello Sarah, you have 3 items` against a
+ * value with placeholders, `Hello {{name}}, you have {count} items`, by
+ * turning each placeholder into a wildcard. ICU plurals and selects match any
+ * of their messages, with `#` standing for the number.
+ */
+function matchTemplate(
+	value: string,
+	query: string,
+	options: SearchOptions,
+): TextMatch | undefined {
+	if (!hasPlaceholders(value)) {
+		return undefined;
+	}
+
+	const { source, literalLength } = templateSource(value, options, false);
+	if (literalLength < MIN_TEMPLATE_LITERAL) {
+		return undefined;
+	}
+
+	const ranges: MatchRange[] = [[0, value.length]];
+	if (new RegExp(`^${source}$`, "u").test(query)) {
+		return { score: SCORE.rendered, ranges };
+	}
+	if (new RegExp(source, "u").test(query)) {
+		return { score: SCORE.renderedWithin, ranges };
+	}
+	return undefined;
+}
+
+/**
+ * Regular expression source matching the renderings of a message, and the
+ * number of literal characters every rendering contains.
+ */
+function templateSource(
+	message: string,
+	options: SearchOptions,
+	plural: boolean,
+): { source: string; literalLength: number } {
+	let source = "";
+	let literalLength = 0;
+	for (const part of splitPlaceholders(message)) {
+		const choice = part.placeholder ? icuChoice(part.text) : undefined;
+		if (choice) {
+			const branches = choice.messages.map((branch) =>
+				templateSource(branch, options, choice.plural),
+			);
+			source += `(?:${branches.map((branch) => branch.source).join("|")})`;
+			literalLength += Math.min(
+				...branches.map((branch) => branch.literalLength),
+			);
+		} else if (part.placeholder) {
+			source += "(.+?)";
+		} else {
+			const literal = normalize(part.text, options).text;
+			const escaped = literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+			source += plural ? escaped.replaceAll("#", "(.+?)") : escaped;
+			literalLength += literal.replace(plural ? /[\s#]/g : /\s/g, "").length;
+		}
+	}
+	return { source, literalLength };
+}
+
+function matchRegExp(text: string, pattern: RegExp): TextMatch | undefined {
+	const ranges: MatchRange[] = [];
+	let score = 0;
+	pattern.lastIndex = 0;
+	for (const match of text.matchAll(pattern)) {
+		if (!match[0]) {
+			continue;
+		}
+		const start = match.index ?? 0;
+		const end = start + match[0].length;
+		ranges.push([start, end]);
+		score = Math.max(score, tierScore(text, start, end));
+	}
+	return ranges.length > 0 ? { score, ranges } : undefined;
+}
+
+/** Every occurrence of `query`, scored by the best one */
+function matchLiteral(
+	normalized: NormalizedText,
+	query: string,
+	options: SearchOptions,
+): TextMatch | undefined {
+	const { text } = normalized;
+	const ranges: MatchRange[] = [];
+	let score = 0;
+	for (
+		let index = text.indexOf(query);
+		index !== -1;
+		index = text.indexOf(query, index + query.length)
+	) {
+		const end = index + query.length;
+		if (
+			options.wholeWord &&
+			(!isWordBoundary(text, index) || !isWordBoundary(text, end))
+		) {
+			continue;
+		}
+		ranges.push(toOriginalRange(normalized, index, end));
+		score = Math.max(score, tierScore(text, index, end));
+	}
+	return ranges.length > 0 ? { score, ranges } : undefined;
+}
+
+/**
+ * Best approximate occurrence of `query` in the text, allowing about one typo
+ * (insertion, deletion, substitution or swap of neighbours) per four
+ * characters.
+ */
+function matchFuzzy(
+	normalized: NormalizedText,
+	query: string,
+	options: SearchOptions,
+): TextMatch | undefined {
+	const { text } = normalized;
+	const maxTypos = Math.min(3, Math.floor((query.length - 1) / 4));
+	if (maxTypos === 0 || !text) {
+		return undefined;
+	}
+
+	// Approximate substring matching: a match may start anywhere in the text,
+	// so the first row costs nothing. `starts` tracks where each match began.
+	let beforePrevious: number[] = [];
+	let beforePreviousStarts: number[] = [];
+	let previous = new Array<number>(text.length + 1).fill(0);
+	let previousStarts = Array.from({ length: text.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= query.length; i++) {
+		const current = [i];
+		const starts = [0];
+		for (let j = 1; j <= text.length; j++) {
+			let cost = previous[j - 1] + (query[i - 1] === text[j - 1] ? 0 : 1);
+			let start = previousStarts[j - 1];
+			if (previous[j] + 1 < cost) {
+				cost = previous[j] + 1;
+				start = previousStarts[j];
+			}
+			if (current[j - 1] + 1 < cost) {
+				cost = current[j - 1] + 1;
+				start = starts[j - 1];
+			}
+			if (
+				i > 1 &&
+				j > 1 &&
+				query[i - 1] === text[j - 2] &&
+				query[i - 2] === text[j - 1] &&
+				beforePrevious[j - 2] + 1 < cost
+			) {
+				cost = beforePrevious[j - 2] + 1;
+				start = beforePreviousStarts[j - 2];
+			}
+			current.push(cost);
+			starts.push(start);
+		}
+		beforePrevious = previous;
+		beforePreviousStarts = previousStarts;
+		previous = current;
+		previousStarts = starts;
+	}
+
+	let best: { typos: number; start: number; end: number } | undefined;
+	for (let end = 1; end <= text.length; end++) {
+		const typos = previous[end];
+		const start = previousStarts[end];
+		if (
+			typos > maxTypos ||
+			(options.wholeWord &&
+				(!isWordBoundary(text, start) || !isWordBoundary(text, end)))
+		) {
+			continue;
+		}
+		if (!best || typos < best.typos) {
+			best = { typos, start, end };
+		}
+	}
+	if (!best) {
+		return undefined;
+	}
+	return {
+		score: SCORE.fuzzy - best.typos * TYPO_PENALTY,
+		ranges: [toOriginalRange(normalized, best.start, best.end)],
+	};
+}
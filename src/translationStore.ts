@@ -0,0 +1,491 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+	applyEntryEdit,
+	buildTranslationMap,
+	type CatalogueGroup,
+	diffEntries,
+	discoverCatalogueGroups,
+	type EntriesDiff,
+	type LocaleCatalogue,
+	type LocaleFile,
+	type LocaleFilepathsSetting,
+	loadCatalogueGroup,
+	loadLocaleCatalogue,
+	relocateEntries,
+	resolveLocaleFiles,
+	type TranslationMap,
+} from "./catalogue";
+import type { EntryEdit } from "./catalogueWriter";
+import { getLogger } from "./logger";
+import { type NamespaceMapping, qualifyKey } from "./namespaces";
+import { pluralForms } from "./plurals";
+
+export type { CatalogueGroup } from "./catalogue";
+
+/** Keys of one catalogue file that were added, removed or changed */
+export interface CatalogueChange extends EntriesDiff {
+	folderUri: string;
+	locale: string;
+	filePath: string;
+}
+
+/** The catalogues of one workspace folder */
+export class FolderTranslations {
+	private referenceMap: TranslationMap | undefined;
+
+	constructor(
+		readonly folder: vscode.WorkspaceFolder,
+		readonly groups: CatalogueGroup[],
+	) {}
+
+	/** Whether keys are qualified with the namespace of their package */
+	get namespaced(): boolean {
+		return this.groups.some((group) => group.namespace !== undefined);
+	}
+
+	/** Reference catalogue of every group */
+	get references(): LocaleCatalogue[] {
+		return this.groups.map((group) => group.catalogues[0]);
+	}
+
+	/** Entries of every reference catalogue */
+	get referenceEntries(): Record<string, string> {
+		return Object.assign(
+			{},
+			...this.references.map((catalogue) => catalogue.entries),
+		);
+	}
+
+	/** All loaded locales, each group's reference locale first */
+	get locales(): LocaleCatalogue[] {
+		return this.groups.flatMap((group) => group.catalogues);
+	}
+
+	/** Drops what was derived from the entries after they were edited */
+	entriesChanged() {
+		this.referenceMap = undefined;
+	}
+
+	/** Value-to-keys map of the reference locales */
+	get translationMap(): TranslationMap {
+		this.referenceMap ??=
+			this.groups.length === 1
+				? this.groups[0].catalogues[0].map
+				: buildTranslationMap(this.referenceEntries);
+		return this.referenceMap;
+	}
+
+	get filePaths(): string[] {
+		return this.locales.map((catalogue) => catalogue.filePath);
+	}
+
+	/** Catalogues that may define `key`: those of its namespace */
+	cataloguesFor(key: string): LocaleCatalogue[] {
+		return (
+			this.groups.find(
+				(group) =>
+					!group.namespace || key.startsWith(qualifyKey(group.namespace, "")),
+			)?.catalogues ?? []
+		);
+	}
+
+	/** Group of the package containing a file, the innermost one if nested */
+	groupForFile(filePath: string): CatalogueGroup | undefined {
+		let best: CatalogueGroup | undefined;
+		for (const group of this.groups) {
+			if (
+				isWithin(filePath, group.rootDir) &&
+				(!best || group.rootDir.length > best.rootDir.length)
+			) {
+				best = group;
+			}
+		}
+		return best ?? this.groups.find((group) => !group.namespace);
+	}
+
+	/** Values of `key` in every locale that defines it */
+	translationsFor(key: string): Record<string, string> {
+		const translations: Record<string, string> = {};
+		for (const catalogue of this.cataloguesFor(key)) {
+			if (key in catalogue.entries) {
+				translations[catalogue.locale] = catalogue.entries[key];
+			}
+		}
+		return translations;
+	}
+
+	/**
+	 * Values of `key`, or of its `other` form if it is a plural key, which is
+	 * what code using the key shows
+	 */
+	displayedTranslationsFor(key: string): Record<string, string> {
+		const translations = this.translationsFor(key);
+		if (Object.keys(translations).length > 0) {
+			return translations;
+		}
+		const forms = pluralForms(this.referenceEntries, key);
+		const form =
+			forms.find((candidate) => candidate.endsWith("_other")) ?? forms[0];
+		return form ? this.translationsFor(form) : translations;
+	}
+
+	/** Whether a file belongs to this folder */
+	contains(filePath: string): boolean {
+		return isWithin(filePath, this.folder.uri.fsPath);
+	}
+}
+
+/**
+ * Holds the loaded catalogues of every workspace folder, each configured by
+ * the folder's own `i18nSearch` settings, and notifies listeners with the
+ * changed keys whenever they are reloaded or edited.
+ */
+export class TranslationStore implements vscode.Disposable {
+	private folderTranslations: FolderTranslations[] = [];
+	/** Content last saved by an edit, per catalogue file */
+	private ownWrites = new Map<string, string>();
+	private _onDidChange = new vscode.EventEmitter<CatalogueChange[]>();
+	readonly onDidChange = this._onDidChange.event;
+
+	/** Workspace folders with a loaded catalogue, in workspace order */
+	get folders(): FolderTranslations[] {
+		return this.folderTranslations;
+	}
+
+	/**
+	 * Catalogues of the folder containing `uri`. Files outside every folder
+	 * use the first folder, as does a single-folder workspace.
+	 */
+	forUri(uri: vscode.Uri): FolderTranslations | undefined {
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		return (
+			this.folderTranslations.find(
+				(translations) =>
+					translations.folder.uri.toString() === folder?.uri.toString(),
+			) ?? (folder ? undefined : this.folderTranslations[0])
+		);
+	}
+
+	/**
+	 * Catalogues of the folder with the given URI, else of the active
+	 * editor's folder, else of the first folder.
+	 */
+	findFolder(folderUri?: string): FolderTranslations | undefined {
+		if (folderUri) {
+			return this.folderTranslations.find(
+				(translations) => translations.folder.uri.toString() === folderUri,
+			);
+		}
+		const editor = vscode.window.activeTextEditor;
+		return (
+			(editor && this.forUri(editor.document.uri)) ?? this.folderTranslations[0]
+		);
+	}
+
+	/** Catalogues of the folder that owns a catalogue file */
+	forCatalogue(filePath: string): FolderTranslations | undefined {
+		return this.folderTranslations.find((translations) =>
+			translations.filePaths.includes(filePath),
+		);
+	}
+
+	/** All loaded locales of every folder */
+	get locales(): LocaleCatalogue[] {
+		return this.folderTranslations.flatMap(
+			(translations) => translations.locales,
+		);
+	}
+
+	/** Value-to-keys map of the reference locales of every folder */
+	get translationMap(): TranslationMap {
+		return buildTranslationMap(
+			Object.assign(
+				{},
+				...this.folderTranslations
+					.map((translations) => translations.referenceEntries)
+					.reverse(),
+			),
+		);
+	}
+
+	get filePaths(): string[] {
+		return this.folderTranslations.flatMap(
+			(translations) => translations.filePaths,
+		);
+	}
+
+	/** Values of `key` in every locale, from the first folder defining it */
+	translationsFor(key: string): Record<string, string> {
+		const translations: Record<string, string> = {};
+		for (const folder of this.folderTranslations) {
+			for (const [locale, value] of Object.entries(
+				folder.translationsFor(key),
+			)) {
+				translations[locale] ??= value;
+			}
+		}
+		return translations;
+	}
+
+	/**
+	 * Reflects an edit already made to a catalogue's document in the loaded
+	 * catalogue, without loading it again. Keys are qualified.
+	 */
+	async applyEdit(
+		catalogue: LocaleCatalogue,
+		edit: EntryEdit,
+		content: string,
+	) {
+		const previous = { ...catalogue.entries };
+		applyEntryEdit(catalogue, edit);
+		await relocateEntries(catalogue, content);
+		const folder = this.folderTranslations.find((translations) =>
+			translations.locales.includes(catalogue),
+		);
+		folder?.entriesChanged();
+		this._onDidChange.fire(
+			folder ? changesOf([{ folder, catalogue, previous }]) : [],
+		);
+	}
+
+	/**
+	 * Loads a changed catalogue file again, keeping every other catalogue.
+	 * Returns false if the file is not loaded. If it cannot be loaded, the
+	 * error is thrown and the previous entries are kept.
+	 */
+	async reloadFile(filePath: string): Promise<boolean> {
+		const folder = this.forCatalogue(filePath);
+		const catalogue = folder?.locales.find(
+			(candidate) => candidate.filePath === filePath,
+		);
+		if (!folder || !catalogue) {
+			return false;
+		}
+		const previous = catalogue.entries;
+		// Update the catalogue in place, as providers may hold on to it
+		Object.assign(
+			catalogue,
+			await loadLocaleCatalogue(catalogue, catalogue.namespace),
+		);
+		folder.entriesChanged();
+		this._onDidChange.fire(changesOf([{ folder, catalogue, previous }]));
+		return true;
+	}
+
+	/** Remembers content about to be saved, whose change needs no reload */
+	recordWrite(filePath: string, content: string) {
+		this.ownWrites.set(filePath, content);
+	}
+
+	/** Whether a changed catalogue file holds the content last saved by an edit */
+	async isOwnWrite(filePath: string): Promise<boolean> {
+		const expected = this.ownWrites.get(filePath);
+		if (expected === undefined) {
+			return false;
+		}
+		this.ownWrites.delete(filePath);
+		try {
+			return (await fs.promises.readFile(filePath, "utf-8")) === expected;
+		} catch (error) {
+			getLogger().debug(`Could not read ${filePath}:`, error);
+			return false;
+		}
+	}
+
+	async reload(): Promise<void> {
+		const workspaceFolders = vscode.workspace.workspaceFolders?.filter(
+			(folder) => folder.uri.scheme === "file",
+		);
+		if (!workspaceFolders || workspaceFolders.length === 0) {
+			throw new Error("No workspace folder found");
+		}
+
+		const loaded: FolderTranslations[] = [];
+		let firstError: unknown;
+		for (const folder of workspaceFolders) {
+			try {
+				const groups = await this.loadFolder(folder);
+				if (groups.length > 0) {
+					loaded.push(new FolderTranslations(folder, groups));
+				}
+			} catch (error) {
+				firstError ??= error;
+			}
+		}
+
+		const previous = this.folderTranslations;
+		this.folderTranslations = loaded;
+		this._onDidChange.fire(reloadChanges(previous, loaded));
+		if (loaded.length === 0 && firstError) {
+			// Without a reference locale there is nothing to search
+			throw firstError;
+		}
+	}
+
+	private async loadFolder(
+		folder: vscode.WorkspaceFolder,
+	): Promise<CatalogueGroup[]> {
+		const config = vscode.workspace.getConfiguration("i18nSearch", folder.uri);
+		const localeFilepaths = config.get<LocaleFilepathsSetting>(
+			"localeFilepaths",
+			"",
+		);
+		const catalogueGlob = config.get<string>("catalogueGlob", "").trim();
+		if (catalogueGlob) {
+			return this.discoverPackages(
+				folder,
+				catalogueGlob,
+				localeFilepaths,
+				config.get<NamespaceMapping>("namespaces", {}),
+			);
+		}
+
+		const translationFilepath = config.get<string>(
+			"translationFilepath",
+			"./src/i18n/en.ts",
+		);
+		const rootDir = folder.uri.fsPath;
+		const files = resolveLocaleFiles(
+			rootDir,
+			translationFilepath,
+			localeFilepaths,
+		);
+
+		const message = (file: LocaleFile) =>
+			`Failed to load translations of ${folder.name} for locale ${file.locale}:`;
+		try {
+			const group = await loadCatalogueGroup(
+				rootDir,
+				files,
+				undefined,
+				(file, error) => getLogger().error(message(file), error),
+			);
+			logLoaded(folder.name, group.catalogues);
+			return [group];
+		} catch (error) {
+			if (isConfiguredFor(config)) {
+				getLogger().error(message(files[0]), error);
+			} else {
+				// Folders of a multi-root workspace need not have a catalogue
+				getLogger().debug(message(files[0]), error);
+			}
+			throw error;
+		}
+	}
+
+	/** Loads a group per catalogue of the folder matching the glob */
+	private async discoverPackages(
+		folder: vscode.WorkspaceFolder,
+		catalogueGlob: string,
+		localeFilepaths: LocaleFilepathsSetting,
+		mapping: NamespaceMapping,
+	): Promise<CatalogueGroup[]> {
+		const uris = await vscode.workspace.findFiles(
+			new vscode.RelativePattern(folder, catalogueGlob),
+			"**/node_modules/**",
+		);
+		const groups = await discoverCatalogueGroups(
+			folder.uri.fsPath,
+			uris.map((uri) => uri.fsPath),
+			localeFilepaths,
+			mapping,
+		);
+		if (groups.length === 0) {
+			throw new Error(`No translation catalogue matches ${catalogueGlob}`);
+		}
+		for (const group of groups) {
+			logLoaded(`${folder.name} (${group.namespace})`, group.catalogues);
+		}
+		return groups;
+	}
+
+	dispose() {
+		this._onDidChange.dispose();
+	}
+}
+
+function logLoaded(source: string, catalogues: LocaleCatalogue[]) {
+	getLogger().info(
+		`Loaded locales of ${source}: ${catalogues
+			.map(
+				(catalogue) =>
+					`${catalogue.locale} (${Object.keys(catalogue.entries).length} keys)`,
+			)
+			.join(", ")}`,
+	);
+}
+
+/** Changed keys of catalogues whose previous entries are known */
+function changesOf(
+	updates: {
+		folder: FolderTranslations;
+		catalogue: LocaleCatalogue;
+		previous: Record<string, string>;
+	}[],
+): CatalogueChange[] {
+	return updates
+		.map(({ folder, catalogue, previous }) => ({
+			folderUri: folder.folder.uri.toString(),
+			locale: catalogue.locale,
+			filePath: catalogue.filePath,
+			...diffEntries(previous, catalogue.entries),
+		}))
+		.filter(
+			(change) =>
+				change.added.length + change.removed.length + change.changed.length > 0,
+		);
+}
+
+/**
+ * Changed keys of every catalogue after a full reload. Catalogues no longer
+ * loaded have all their keys removed, new ones all their keys added.
+ */
+function reloadChanges(
+	previous: FolderTranslations[],
+	current: FolderTranslations[],
+): CatalogueChange[] {
+	const catalogues = (folders: FolderTranslations[]) =>
+		new Map(
+			folders.flatMap((folder) =>
+				folder.locales.map(
+					(catalogue) => [catalogue.filePath, { folder, catalogue }] as const,
+				),
+			),
+		);
+	const before = catalogues(previous);
+	const after = catalogues(current);
+
+	const updates = [...after.values()].map(({ folder, catalogue }) => ({
+		folder,
+		catalogue,
+		previous: before.get(catalogue.filePath)?.catalogue.entries ?? {},
+	}));
+	for (const [filePath, { folder, catalogue }] of before) {
+		if (!after.has(filePath)) {
+			updates.push({
+				folder,
+				catalogue: { ...catalogue, entries: {} },
+				previous: catalogue.entries,
+			});
+		}
+	}
+	return changesOf(updates);
+}
+
+function isWithin(filePath: string, dir: string): boolean {
+	const relative = path.relative(dir, filePath);
+	return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Whether a folder is expected to have a catalogue: it is the only folder,
+ * or its own settings name one.
+ */
+function isConfiguredFor(config: vscode.WorkspaceConfiguration): boolean {
+	return (
+		(vscode.workspace.workspaceFolders?.length ?? 0) <= 1 ||
+		config.inspect("translationFilepath")?.workspaceFolderValue !== undefined
+	);
+}
@@ -0,0 +1,478 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { getUsagePatterns, usesNamespaces } from "./config";
+import { IgnoreMatcher } from "./gitignore";
+import { globToRegExp, matchesAnyGlob } from "./glob";
+import {
+	type HardcodedStringOptions,
+	type HardcodedText,
+	isScriptFile,
+	scanHardcodedStrings,
+} from "./hardcodedStrings";
+import { getLogger } from "./logger";
+import { searchKeyInFiles } from "./searchView";
+import type { FolderTranslations } from "./translationStore";
+import type { MatchOptions, UsagePattern } from "./usagePatterns";
+import {
+	findTextOccurrences,
+	type KeyUsage,
+	type SourceLocation,
+	scanDynamicUsages,
+	scanUsages,
+} from "./usageScanner";
+
+const DEFAULT_USAGE_GLOB =
+	"**/*.{ts,tsx,js,jsx,mjs,cjs,mts,cts,vue,svelte,html}";
+const READ_BATCH_SIZE = 50;
+
+/**
+ * Index of translation key usages across the workspace. Files are found with
+ * the configured glob, honouring `files.exclude`, `search.exclude` and
+ * `.gitignore`, and re-scanned when they change on disk or in an editor.
+ */
+export class UsageIndex implements vscode.Disposable {
+	private usagesByFile = new Map<string, KeyUsage[]>();
+	/** Usages whose key is built at runtime, such as `errors.${code}` */
+	private dynamicUsagesByFile = new Map<string, KeyUsage[]>();
+	private usagesByKey: Map<string, KeyUsage[]> | null = null;
+	private building: Promise<void> | null = null;
+	private disposables: vscode.Disposable[] = [];
+	private watcher: vscode.FileSystemWatcher | undefined;
+	private pendingDocuments = new Map<string, NodeJS.Timeout>();
+	private excludePatterns: RegExp[] = [];
+	private usagePatterns: UsagePattern[] = getUsagePatterns();
+	private ignoreMatcher = new IgnoreMatcher();
+	private _onDidChange = new vscode.EventEmitter<void>();
+	readonly onDidChange = this._onDidChange.event;
+
+	constructor() {
+		this.watchFiles();
+		this.disposables.push(
+			vscode.workspace.onDidChangeTextDocument((event) =>
+				this.scheduleDocumentUpdate(event.document),
+			),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => this.rebuild()),
+			vscode.workspace.onDidChangeConfiguration((event) => {
+				if (event.affectsConfiguration("i18nSearch.usageFileGlob")) {
+					this.watchFiles();
+				}
+				if (
+					event.affectsConfiguration("i18nSearch.usageFileGlob") ||
+					event.affectsConfiguration("i18nSearch.usagePresets") ||
+					event.affectsConfiguration("i18nSearch.usagePatterns") ||
+					event.affectsConfiguration("i18nSearch.catalogueGlob") ||
+					event.affectsConfiguration("files.exclude") ||
+					event.affectsConfiguration("search.exclude") ||
+					event.affectsConfiguration("search.useIgnoreFiles")
+				) {
+					this.rebuild();
+				}
+			}),
+		);
+	}
+
+	/** Watches the files matching the current usage glob */
+	private watchFiles() {
+		this.watcher?.dispose();
+		this.watcher = vscode.workspace.createFileSystemWatcher(this.includeGlob());
+		this.watcher.onDidCreate((uri) => this.updateFile(uri));
+		this.watcher.onDidChange((uri) => this.updateFile(uri));
+		this.watcher.onDidDelete((uri) => this.removeFile(uri.fsPath));
+	}
+
+	/** Resolves once the initial scan of the workspace has finished */
+	ready(): Promise<void> {
+		if (!this.building) {
+			this.building = this.build();
+		}
+		return this.building;
+	}
+
+	rebuild(): Promise<void> {
+		this.building = this.build();
+		return this.building;
+	}
+
+	/** Every indexed usage of `key`, optionally only within one folder */
+	async getUsages(
+		key: string,
+		folder?: FolderTranslations,
+	): Promise<KeyUsage[]> {
+		await this.ready();
+		const usages = this.getUsagesByKey().get(key) ?? [];
+		return folder
+			? usages.filter((usage) => folder.contains(usage.filePath))
+			: usages;
+	}
+
+	/** Every indexed usage, grouped by file */
+	async getUsagesByFile(): Promise<ReadonlyMap<string, KeyUsage[]>> {
+		await this.ready();
+		return this.usagesByFile;
+	}
+
+	/** Every key referenced anywhere in the workspace */
+	async getUsedKeys(): Promise<Set<string>> {
+		await this.ready();
+		return new Set(this.getUsagesByKey().keys());
+	}
+
+	/** Literal occurrences of `text` in the indexed files */
+	async findText(
+		text: string,
+		caseSensitive = false,
+		folder?: FolderTranslations,
+	): Promise<SourceLocation[]> {
+		await this.ready();
+		const locations: SourceLocation[] = [];
+		for (const filePath of this.usagesByFile.keys()) {
+			if (folder && !folder.contains(filePath)) {
+				continue;
+			}
+			const content = await this.readFile(filePath);
+			if (content !== undefined) {
+				locations.push(
+					...findTextOccurrences(content, filePath, text, caseSensitive),
+				);
+			}
+		}
+		return locations;
+	}
+
+	/** Usages whose key is built at runtime, found in the indexed files */
+	async findDynamicUsages(folder?: FolderTranslations): Promise<KeyUsage[]> {
+		await this.ready();
+		return [...this.dynamicUsagesByFile].flatMap(([filePath, usages]) =>
+			!folder || folder.contains(filePath) ? usages : [],
+		);
+	}
+
+	/**
+	 * User-facing strings not wrapped in a translation call, in the indexed
+	 * script files other than `skipFiles`
+	 */
+	async findHardcodedStrings(
+		options: HardcodedStringOptions,
+		skipFiles: string[] = [],
+	): Promise<HardcodedText[]> {
+		await this.ready();
+		const found: HardcodedText[] = [];
+		for (const filePath of this.usagesByFile.keys()) {
+			if (!isScriptFile(filePath) || skipFiles.includes(filePath)) {
+				continue;
+			}
+			const content = await this.readFile(filePath);
+			if (content !== undefined) {
+				found.push(...scanHardcodedStrings(content, filePath, options));
+			}
+		}
+		return found;
+	}
+
+	private getUsagesByKey(): Map<string, KeyUsage[]> {
+		if (!this.usagesByKey) {
+			this.usagesByKey = new Map();
+			for (const usages of this.usagesByFile.values()) {
+				for (const usage of usages) {
+					const list = this.usagesByKey.get(usage.key) ?? [];
+					list.push(usage);
+					this.usagesByKey.set(usage.key, list);
+				}
+			}
+		}
+		return this.usagesByKey;
+	}
+
+	private includeGlob(): string {
+		return vscode.workspace
+			.getConfiguration("i18nSearch")
+			.get<string>("usageFileGlob", DEFAULT_USAGE_GLOB);
+	}
+
+	private build(): Promise<void> {
+		return Promise.resolve(
+			vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Window,
+					title: "i18n-search: Indexing key usages",
+				},
+				() => this.scanWorkspace(),
+			),
+		);
+	}
+
+	private async scanWorkspace() {
+		const started = Date.now();
+		this.usagePatterns = getUsagePatterns();
+		const files = await this.listFiles();
+		const usagesByFile = new Map<string, KeyUsage[]>();
+		const dynamicUsagesByFile = new Map<string, KeyUsage[]>();
+
+		for (let i = 0; i < files.length; i += READ_BATCH_SIZE) {
+			await Promise.all(
+				files.slice(i, i + READ_BATCH_SIZE).map(async (filePath) => {
+					const content = await this.readFile(filePath);
+					if (content !== undefined) {
+						usagesByFile.set(filePath, this.scan(content, filePath));
+						dynamicUsagesByFile.set(
+							filePath,
+							this.scanDynamic(content, filePath),
+						);
+					}
+				}),
+			);
+		}
+
+		this.usagesByFile = usagesByFile;
+		this.dynamicUsagesByFile = dynamicUsagesByFile;
+		this.usagesByKey = null;
+		getLogger().info(
+			`Indexed key usages in ${files.length} files (${Date.now() - started}ms)`,
+		);
+		this._onDidChange.fire();
+	}
+
+	private async listFiles(): Promise<string[]> {
+		// The virtual `i18n:` folder has no files to search
+		const folders = (vscode.workspace.workspaceFolders ?? []).filter(
+			(folder) => folder.uri.scheme === "file",
+		);
+		const searchConfig = vscode.workspace.getConfiguration("search");
+
+		// findFiles already applies `files.exclude`
+		this.excludePatterns = Object.entries(
+			searchConfig.get<Record<string, unknown>>("exclude", {}),
+		)
+			.filter(([, enabled]) => enabled === true)
+			.map(([glob]) => globToRegExp(glob));
+
+		this.ignoreMatcher = new IgnoreMatcher();
+		if (searchConfig.get<boolean>("useIgnoreFiles", true)) {
+			const ignoreFiles: vscode.Uri[] = [];
+			for (const folder of folders) {
+				ignoreFiles.push(
+					...(await vscode.workspace.findFiles(
+						new vscode.RelativePattern(folder, "**/.gitignore"),
+					)),
+				);
+			}
+			// Parent directories first so nested files take precedence
+			const sorted = ignoreFiles
+				.map((uri) => uri.fsPath)
+				.filter((filePath) => !this.isSearchExcluded(filePath))
+				.sort((a, b) => a.split(path.sep).length - b.split(path.sep).length);
+			for (const filePath of sorted) {
+				const content = await this.readFile(filePath);
+				if (content !== undefined) {
+					this.ignoreMatcher.add(path.dirname(filePath), content);
+				}
+			}
+		}
+
+		const files: string[] = [];
+		for (const folder of folders) {
+			const uris = await vscode.workspace.findFiles(
+				new vscode.RelativePattern(folder, this.includeGlob()),
+			);
+			files.push(
+				...uris
+					.map((uri) => uri.fsPath)
+					.filter((filePath) => this.isIndexable(filePath)),
+			);
+		}
+		return files;
+	}
+
+	private isSearchExcluded(filePath: string): boolean {
+		const folder = vscode.workspace.getWorkspaceFolder(
+			vscode.Uri.file(filePath),
+		);
+		if (!folder) {
+			return false;
+		}
+		return matchesAnyGlob(
+			path.relative(folder.uri.fsPath, filePath),
+			this.excludePatterns,
+		);
+	}
+
+	private isIndexable(filePath: string): boolean {
+		return (
+			!this.isSearchExcluded(filePath) && !this.ignoreMatcher.ignores(filePath)
+		);
+	}
+
+	private async readFile(filePath: string): Promise<string | undefined> {
+		// Prefer editor contents so unsaved changes are reflected
+		const document = vscode.workspace.textDocuments.find(
+			(doc) => doc.uri.scheme === "file" && doc.uri.fsPath === filePath,
+		);
+		if (document) {
+			return document.getText();
+		}
+		try {
+			return await fs.promises.readFile(filePath, "utf-8");
+		} catch (error) {
+			getLogger().debug(`Could not read ${filePath}:`, error);
+			return undefined;
+		}
+	}
+
+	private async updateFile(uri: vscode.Uri) {
+		if (!this.building || !this.isIndexable(uri.fsPath)) {
+			return;
+		}
+		await this.building;
+		const content = await this.readFile(uri.fsPath);
+		if (content === undefined) {
+			this.removeFile(uri.fsPath);
+			return;
+		}
+		this.usagesByFile.set(uri.fsPath, this.scan(content, uri.fsPath));
+		this.dynamicUsagesByFile.set(
+			uri.fsPath,
+			this.scanDynamic(content, uri.fsPath),
+		);
+		this.usagesByKey = null;
+		this._onDidChange.fire();
+	}
+
+	private scan(content: string, filePath: string): KeyUsage[] {
+		return scanUsages(
+			content,
+			filePath,
+			this.usagePatterns,
+			this.matchOptions(filePath),
+		);
+	}
+
+	private scanDynamic(content: string, filePath: string): KeyUsage[] {
+		return scanDynamicUsages(
+			content,
+			filePath,
+			this.usagePatterns,
+			this.matchOptions(filePath),
+		);
+	}
+
+	private matchOptions(filePath: string): MatchOptions {
+		return { namespaces: usesNamespaces(vscode.Uri.file(filePath)) };
+	}
+
+	private removeFile(filePath: string) {
+		if (this.usagesByFile.delete(filePath)) {
+			this.dynamicUsagesByFile.delete(filePath);
+			this.usagesByKey = null;
+			this._onDidChange.fire();
+		}
+	}
+
+	private scheduleDocumentUpdate(document: vscode.TextDocument) {
+		const filePath = document.uri.fsPath;
+		if (document.uri.scheme !== "file" || !this.usagesByFile.has(filePath)) {
+			return;
+		}
+		clearTimeout(this.pendingDocuments.get(filePath));
+		this.pendingDocuments.set(
+			filePath,
+			setTimeout(() => {
+				this.pendingDocuments.delete(filePath);
+				this.updateFile(document.uri);
+			}, 300),
+		);
+	}
+
+	dispose() {
+		for (const timeout of this.pendingDocuments.values()) {
+			clearTimeout(timeout);
+		}
+		this.watcher?.dispose();
+		this.disposables.forEach((disposable) => disposable.dispose());
+		this._onDidChange.dispose();
+	}
+}
+
+/**
+ * Navigates to the usages of a key: straight to the first one when
+ * `jumpToFirstResult` is enabled, otherwise through a list to pick from. With
+ * mixed search, literal occurrences of the value are listed after the keys.
+ */
+export async function revealKeyUsages(
+	index: UsageIndex,
+	key: string,
+	value?: string,
+	options: { pick?: boolean; folder?: FolderTranslations } = {},
+) {
+	const config = vscode.workspace.getConfiguration("i18nSearch");
+	const enableMixedSearch = config.get<boolean>("enableMixedSearch", true);
+	const jumpToFirstResult = config.get<boolean>("jumpToFirstResult", true);
+
+	const locations: SourceLocation[] = [
+		...(await index.getUsages(key, options.folder)),
+	];
+	if (enableMixedSearch && value) {
+		locations.push(...(await index.findText(value, false, options.folder)));
+	}
+
+	if (locations.length === 0) {
+		const action = await vscode.window.showInformationMessage(
+			`No usages found for key: ${key}`,
+			"Search in Files",
+		);
+		if (action) {
+			await searchKeyInFiles(key, options.folder?.folder);
+		}
+		return;
+	}
+
+	const location =
+		jumpToFirstResult && !options.pick
+			? locations[0]
+			: await pickLocation(locations, `Usages of ${key}`);
+	if (location) {
+		await openLocation(location);
+	}
+}
+
+/** Opens a location in an editor with its range selected */
+export async function openLocation(location: SourceLocation) {
+	const document = await vscode.workspace.openTextDocument(
+		vscode.Uri.file(location.filePath),
+	);
+	const start = new vscode.Position(location.line, location.character);
+	await vscode.window.showTextDocument(document, {
+		selection: new vscode.Range(start, start.translate(0, location.length)),
+	});
+}
+
+/** Lets the user pick one of several locations, previewing them as they go */
+export async function pickLocation(
+	locations: SourceLocation[],
+	title: string,
+): Promise<SourceLocation | undefined> {
+	const items = locations.map((location) => ({
+		label: location.lineText.trim(),
+		description: `${vscode.workspace.asRelativePath(location.filePath)}:${location.line + 1}:${location.character + 1}`,
+		location,
+	}));
+
+	const picked = await vscode.window.showQuickPick(items, {
+		title,
+		matchOnDescription: true,
+		onDidSelectItem: (item: (typeof items)[number]) => {
+			// Preview without taking focus from the picker
+			vscode.window.showTextDocument(vscode.Uri.file(item.location.filePath), {
+				preview: true,
+				preserveFocus: true,
+				selection: new vscode.Range(
+					item.location.line,
+					item.location.character,
+					item.location.line,
+					item.location.character + item.location.length,
+				),
+			});
+		},
+	});
+	return picked?.location;
+}
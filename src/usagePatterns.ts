@@ -0,0 +1,247 @@
+import { getLogger } from "./logger";
+import { NAMESPACE_SEPARATOR } from "./namespaces";
+
+const KEY_PLACEHOLDER = "{key}";
+const NAMESPACE_PLACEHOLDER = "{namespace}";
+const QUOTE = "['\"`]";
+const KEY_CHARACTERS = "[^'\"`\\s]+";
+
+/**
+ * Usage patterns of common i18n libraries. Patterns are regular expressions
+ * in which `{key}` stands for the translation key and the optional
+ * `{namespace}` for a namespace that is prefixed to it.
+ */
+export const USAGE_PRESETS = {
+	i18next: [
+		`\\bt\\(\\s*${QUOTE}{key}${QUOTE}`,
+		`\\bi18nKey=\\{?\\s*${QUOTE}{key}${QUOTE}`,
+	],
+	"react-intl": [
+		`\\bformatMessage\\(\\s*\\{\\s*id:\\s*${QUOTE}{key}${QUOTE}`,
+		`<FormattedMessage\\b[^>]*?\\bid=\\{?\\s*${QUOTE}{key}${QUOTE}`,
+	],
+	"vue-i18n": [
+		`\\$tc?\\(\\s*${QUOTE}{key}${QUOTE}`,
+		`\\bt\\(\\s*${QUOTE}{key}${QUOTE}`,
+		`\\bv-t=(?:"'|'"){key}['"]`,
+		`\\bkeypath=['"]{key}['"]`,
+	],
+	"next-intl": [
+		`\\buseTranslations\\(\\s*${QUOTE}{namespace}${QUOTE}\\s*\\)\\(\\s*${QUOTE}{key}${QUOTE}`,
+		`\\bt(?:\\.(?:rich|markup|raw))?\\(\\s*${QUOTE}{key}${QUOTE}`,
+	],
+	angular: [
+		`${QUOTE}{key}${QUOTE}\\s*\\|\\s*translate\\b`,
+		`\\btranslate\\.(?:instant|get|stream)\\(\\s*${QUOTE}{key}${QUOTE}`,
+		`\\btranslate=['"]{key}['"]`,
+	],
+} satisfies Record<string, string[]>;
+
+export type UsagePreset = keyof typeof USAGE_PRESETS;
+
+/**
+ * Calls that set the namespace of the keys used after them, such as i18next's
+ * `useTranslation("checkout")`. Of a list of namespaces the first is the
+ * default one.
+ */
+const NAMESPACE_SCOPE_PATTERNS = [
+	`\\b(?:useTranslation|withTranslation)\\(\\s*\\[?\\s*${QUOTE}(?<namespace>${KEY_CHARACTERS})${QUOTE}`,
+	`\\bgetFixedT\\(\\s*[^,()]*,\\s*\\[?\\s*${QUOTE}(?<namespace>${KEY_CHARACTERS})${QUOTE}`,
+].map((source) => new RegExp(source, "g"));
+
+export const DEFAULT_USAGE_PRESETS: UsagePreset[] = ["i18next"];
+
+/** A usage pattern compiled for scanning files */
+export interface UsagePattern {
+	source: string;
+	regExp: RegExp;
+}
+
+/**
+ * Compiles the patterns of the given presets followed by custom patterns.
+ * Invalid patterns, or patterns without a `{key}` placeholder, are skipped.
+ */
+export function compileUsagePatterns(
+	presets: string[],
+	customPatterns: string[] = [],
+): UsagePattern[] {
+	const sources = new Set<string>();
+	for (const preset of presets) {
+		const presetPatterns = USAGE_PRESETS[preset as UsagePreset];
+		if (!presetPatterns) {
+			getLogger().warn(`Unknown usage preset: ${preset}`);
+			continue;
+		}
+		presetPatterns.forEach((source) => sources.add(source));
+	}
+	customPatterns.forEach((source) => sources.add(source));
+
+	const patterns: UsagePattern[] = [];
+	for (const source of sources) {
+		if (!source.includes(KEY_PLACEHOLDER)) {
+			getLogger().warn(`Usage pattern has no ${KEY_PLACEHOLDER}: ${source}`);
+			continue;
+		}
+		try {
+			patterns.push({
+				source,
+				regExp: new RegExp(
+					source
+						.replace(KEY_PLACEHOLDER, `(?<key>${KEY_CHARACTERS})`)
+						.replace(NAMESPACE_PLACEHOLDER, `(?<namespace>${KEY_CHARACTERS})`),
+					"gd",
+				),
+			});
+		} catch (error) {
+			getLogger().error(`Invalid usage pattern: ${source}`, error);
+		}
+	}
+	return patterns;
+}
+
+/** A key matched by a usage pattern, with its offset in the scanned text */
+export interface PatternMatch {
+	key: string;
+	offset: number;
+	length: number;
+}
+
+export interface MatchOptions {
+	/**
+	 * Qualify keys with the namespace of the enclosing `useTranslation` call,
+	 * e.g. `checkout:title` for `t("title")`
+	 */
+	namespaces?: boolean;
+}
+
+/**
+ * Runs every pattern over `text`. Matches of the same key at the same offset
+ * (e.g. from overlapping presets) are reported once.
+ */
+export function matchUsagePatterns(
+	text: string,
+	patterns: UsagePattern[],
+	options: MatchOptions = {},
+): PatternMatch[] {
+	const scopes = options.namespaces ? namespaceScopes(text) : [];
+	const matches = new Map<number, PatternMatch>();
+
+	for (const pattern of patterns) {
+		pattern.regExp.lastIndex = 0;
+		for (const match of text.matchAll(pattern.regExp)) {
+			const key = match.groups?.key;
+			const keyIndices = match.indices?.groups?.key;
+			if (!key || !keyIndices || matches.has(keyIndices[0])) {
+				continue;
+			}
+			const namespace = match.groups?.namespace;
+			const scope = namespace
+				? undefined
+				: scopeAt(scopes, keyIndices[0], key)?.namespace;
+			matches.set(keyIndices[0], {
+				key: namespace
+					? `${namespace}.${key}`
+					: scope
+						? `${scope}${NAMESPACE_SEPARATOR}${key}`
+						: key,
+				offset: keyIndices[0],
+				length: key.length,
+			});
+		}
+	}
+
+	return [...matches.values()].sort((a, b) => a.offset - b.offset);
+}
+
+interface NamespaceScope {
+	namespace: string;
+	offset: number;
+}
+
+/** Every namespace scope call in `text`, in order */
+function namespaceScopes(text: string): NamespaceScope[] {
+	const scopes: NamespaceScope[] = [];
+	for (const pattern of NAMESPACE_SCOPE_PATTERNS) {
+		for (const match of text.matchAll(pattern)) {
+			if (match.groups?.namespace) {
+				scopes.push({ namespace: match.groups.namespace, offset: match.index });
+			}
+		}
+	}
+	return scopes.sort((a, b) => a.offset - b.offset);
+}
+
+/** The last scope before `offset`, unless `key` names its own namespace */
+function scopeAt(
+	scopes: NamespaceScope[],
+	offset: number,
+	key = "",
+): NamespaceScope | undefined {
+	if (key.includes(NAMESPACE_SEPARATOR)) {
+		return undefined;
+	}
+	let current: NamespaceScope | undefined;
+	for (const scope of scopes) {
+		if (scope.offset >= offset) {
+			break;
+		}
+		current = scope;
+	}
+	return current;
+}
+
+/** Namespace set by the last `useTranslation` call before `offset` */
+export function namespaceAt(text: string, offset: number): string | undefined {
+	return scopeAt(namespaceScopes(text), offset)?.namespace;
+}
+
+/**
+ * Builds a single regular expression source that finds usages of one key
+ * with any of the patterns, e.g. for the Search view. A key qualified with
+ * its catalogue's namespace, `checkout:title`, is also found as `title`, as
+ * written after `useTranslation("checkout")`.
+ */
+export function keySearchPattern(
+	patterns: UsagePattern[],
+	key: string,
+): string {
+	const separator = key.indexOf(NAMESPACE_SEPARATOR);
+	const unqualified = key.slice(separator + 1);
+	const keys = separator === -1 ? [key] : [key, unqualified];
+	// The key may be split into namespace and key at its namespace, or any dot
+	const splits = unqualified
+		.split(".")
+		.map((_, i, segments): [string, string] => [
+			segments.slice(0, i).join("."),
+			segments.slice(i).join("."),
+		])
+		.slice(1);
+	if (separator !== -1) {
+		splits.unshift([key.slice(0, separator), unqualified]);
+	}
+
+	const alternatives = new Set<string>();
+	for (const { source } of patterns) {
+		if (!source.includes(NAMESPACE_PLACEHOLDER)) {
+			for (const candidate of keys) {
+				alternatives.add(
+					source.replace(KEY_PLACEHOLDER, escapeRegExp(candidate)),
+				);
+			}
+			continue;
+		}
+		for (const [namespace, rest] of splits) {
+			alternatives.add(
+				source
+					.replace(NAMESPACE_PLACEHOLDER, escapeRegExp(namespace))
+					.replace(KEY_PLACEHOLDER, escapeRegExp(rest)),
+			);
+		}
+	}
+
+	return [...alternatives].map((alternative) => `(?:${alternative})`).join("|");
+}
+
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,97 @@
+import { LineIndex, type SourceLocation } from "./sourceLocation";
+import {
+	escapeRegExp,
+	type MatchOptions,
+	matchUsagePatterns,
+	type UsagePattern,
+} from "./usagePatterns";
+
+export type { SourceLocation } from "./sourceLocation";
+
+/** A reference to a translation key, located at the key itself */
+export interface KeyUsage extends SourceLocation {
+	key: string;
+}
+
+/** Finds every key referenced through one of the usage patterns */
+export function scanUsages(
+	text: string,
+	filePath: string,
+	patterns: UsagePattern[],
+	options: MatchOptions = {},
+): KeyUsage[] {
+	const lines = new LineIndex(text);
+	const usages: KeyUsage[] = [];
+
+	for (const { key, offset, length } of matchUsagePatterns(
+		text,
+		patterns,
+		options,
+	)) {
+		if (key.includes("${")) {
+			// Interpolated template literals are not static keys
+			continue;
+		}
+		usages.push({ key, ...lines.locate(filePath, offset, length) });
+	}
+
+	return usages;
+}
+
+/**
+ * Finds the usages whose key is built at runtime, such as
+ * `` t(`errors.${code}`) ``, which cannot be resolved to a single key.
+ */
+export function scanDynamicUsages(
+	text: string,
+	filePath: string,
+	patterns: UsagePattern[],
+	options: MatchOptions = {},
+): KeyUsage[] {
+	const lines = new LineIndex(text);
+	return matchUsagePatterns(text, patterns, options)
+		.filter(({ key }) => key.includes("${"))
+		.map(({ key, offset, length }) => ({
+			key,
+			...lines.locate(filePath, offset, length),
+		}));
+}
+
+/** Whether a key built at runtime, such as `errors.${code}`, can be `key` */
+export function dynamicKeyMatches(template: string, key: string): boolean {
+	return dynamicKeyPattern(template).test(key);
+}
+
+/** Matches the keys a key built at runtime, such as `errors.${code}`, can be */
+export function dynamicKeyPattern(template: string): RegExp {
+	const source = template
+		.split(/\$\{[^}]*\}/)
+		.map(escapeRegExp)
+		.join(".*");
+	return new RegExp(`^${source}$`);
+}
+
+/** Finds every occurrence of a literal string in a file */
+export function findTextOccurrences(
+	text: string,
+	filePath: string,
+	search: string,
+	caseSensitive = false,
+): SourceLocation[] {
+	if (!search) {
+		return [];
+	}
+
+	const haystack = caseSensitive ? text : text.toLowerCase();
+	const needle = caseSensitive ? search : search.toLowerCase();
+	const lines = new LineIndex(text);
+	const locations: SourceLocation[] = [];
+
+	let offset = haystack.indexOf(needle);
+	while (offset !== -1) {
+		locations.push(lines.locate(filePath, offset, search.length));
+		offset = haystack.indexOf(needle, offset + needle.length);
+	}
+
+	return locations;
+}